@@ -5,6 +5,23 @@ import dotenv from "dotenv";
 // Load environment variables from .env file
 dotenv.config();
 
+function parseList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parseQuota(value: string | undefined): number | undefined {
+  const megabytes = Number(value);
+  return megabytes > 0 ? megabytes * 1024 * 1024 : undefined;
+}
+
+function parseMinutes(value: string | undefined): number | undefined {
+  const minutes = Number(value);
+  return value && minutes >= 0 ? minutes * 60 * 1000 : undefined;
+}
+
 function main() {
   const config = {
     port: Number.parseInt(process.env.PORT || "3000", 10),
@@ -13,6 +30,14 @@ function main() {
     forwardPreviewErrors: process.env.FORWARD_PREVIEW_ERRORS === "true",
     appHostName: process.env.APP_HOST_NAME || "localhost",
     machineId: process.env.FLY_MACHINE_ID || "",
+    dataDir: process.env.AGENT_DATA_DIR || "/var/lib/agent8",
+    readOnlyPaths: parseList(process.env.WORKSPACE_READONLY_PATHS),
+    hiddenPaths: parseList(process.env.WORKSPACE_HIDDEN_PATHS),
+    quotaBytes: parseQuota(process.env.WORKSPACE_QUOTA_MB),
+    quotaWarningThresholds: process.env.WORKSPACE_QUOTA_WARNINGS
+      ? parseList(process.env.WORKSPACE_QUOTA_WARNINGS).map(Number)
+      : undefined,
+    processLogRetentionMs: parseMinutes(process.env.PROCESS_LOG_RETENTION_MINUTES),
   };
 
   if (process.env.FLY_APP_NAME) {
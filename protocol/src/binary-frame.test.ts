@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'bun:test';
+import { decodeBinaryFrame, encodeBinaryFrame } from './binary-frame';
+
+describe('binary frames', () => {
+  it('should round-trip the header and the payload', () => {
+    const header = { id: 'request-1', operation: { type: 'writeFile', path: 'ä.bin' } };
+    const payload = new Uint8Array([0, 1, 2, 255]);
+
+    const frame = decodeBinaryFrame(encodeBinaryFrame(header, payload));
+    expect(frame.header).toEqual(header);
+    expect(frame.payload).toEqual(payload);
+  });
+
+  it('should decode frames that start inside a larger buffer', () => {
+    const encoded = encodeBinaryFrame({ id: 'x' }, new Uint8Array([7, 8]));
+    const buffer = new Uint8Array(encoded.byteLength + 3);
+    buffer.set(encoded, 3);
+
+    const frame = decodeBinaryFrame(buffer.subarray(3));
+    expect(frame.header).toEqual({ id: 'x' });
+    expect(frame.payload).toEqual(new Uint8Array([7, 8]));
+  });
+
+  it('should allow an empty payload', () => {
+    expect(decodeBinaryFrame(encodeBinaryFrame({}, new Uint8Array())).payload.byteLength).toBe(0);
+  });
+
+  it('should reject truncated frames', () => {
+    expect(() => decodeBinaryFrame(new Uint8Array([0, 0]))).toThrow('too short');
+    const frame = encodeBinaryFrame({ id: 'x' }, new Uint8Array());
+    expect(() => decodeBinaryFrame(frame.subarray(0, frame.byteLength - 1))).toThrow('exceeds');
+  });
+});
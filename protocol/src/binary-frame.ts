@@ -0,0 +1,49 @@
+/**
+ * Binary WebSocket frame helpers
+ *
+ * A binary frame carries a JSON header (a ContainerRequest or a
+ * ContainerResponseWithId) followed by raw bytes:
+ *
+ *   [header length: uint32 big-endian][header: UTF-8 JSON][payload bytes]
+ *
+ * Text frames keep carrying plain JSON messages.
+ */
+
+export interface BinaryFrame<T = unknown> {
+  header: T;
+  payload: Uint8Array;
+}
+
+const HEADER_LENGTH_SIZE = 4;
+
+export function encodeBinaryFrame(header: unknown, payload: Uint8Array): Uint8Array {
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const frame = new Uint8Array(HEADER_LENGTH_SIZE + headerBytes.byteLength + payload.byteLength);
+
+  new DataView(frame.buffer).setUint32(0, headerBytes.byteLength);
+  frame.set(headerBytes, HEADER_LENGTH_SIZE);
+  frame.set(payload, HEADER_LENGTH_SIZE + headerBytes.byteLength);
+
+  return frame;
+}
+
+export function decodeBinaryFrame<T = unknown>(frame: Uint8Array): BinaryFrame<T> {
+  if (frame.byteLength < HEADER_LENGTH_SIZE) {
+    throw new Error('Binary frame is too short');
+  }
+
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  const headerLength = view.getUint32(0);
+  const payloadOffset = HEADER_LENGTH_SIZE + headerLength;
+
+  if (payloadOffset > frame.byteLength) {
+    throw new Error('Binary frame header exceeds frame length');
+  }
+
+  const headerBytes = frame.subarray(HEADER_LENGTH_SIZE, payloadOffset);
+
+  return {
+    header: JSON.parse(new TextDecoder().decode(headerBytes)) as T,
+    payload: frame.subarray(payloadOffset),
+  };
+}
@@ -4,3 +4,4 @@
  */
 
 export * from './remote-container-protocol';
+export * from './binary-frame';
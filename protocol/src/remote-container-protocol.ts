@@ -17,6 +17,16 @@ export type BufferEncoding =
   | 'binary'
   | 'hex';
 
+/**
+ * Encoding used for file contents on the wire.
+ * 'raw' means the bytes travel as the payload of a binary WebSocket frame
+ * (see binary-frame.ts) instead of inside the JSON message.
+ */
+export type FileContentEncoding = BufferEncoding | 'raw';
+
+/** What to do when the destination of a rename, copy or move already exists */
+export type ConflictPolicy = 'overwrite' | 'skip' | 'error';
+
 // Spawn options type definition
 export interface SpawnOptions {
   cwd?: string;
@@ -25,6 +35,42 @@ export interface SpawnOptions {
     cols: number;
     rows: number;
   };
+  limits?: ResourceLimits;
+}
+
+/**
+ * Limits for a spawned process. Memory and CPU time count the whole process
+ * tree of the command, without the terminal wrapper around it. They are
+ * approximate: sampled once per second, so a tree can go beyond them until the
+ * next sample, and memory shared between processes counts once per process.
+ * A process that exceeds a limit is killed and its clients receive a
+ * 'limit-exceeded' event.
+ */
+export interface ResourceLimits {
+  /**
+   * Bytes of resident memory of the process tree, sampled once per second.
+   * The process is killed once a sample exceeds it
+   */
+  maxMemory?: number;
+  /**
+   * Milliseconds of CPU time of the process tree. Also enforced by the kernel
+   * for each process, in whole seconds, by killing it
+   */
+  maxCpuTime?: number;
+  /** Open files per process, enforced by the kernel: further opens fail instead */
+  maxOpenFiles?: number;
+  /** Milliseconds since the start */
+  maxWallTime?: number;
+  /** Bytes of output */
+  maxOutputSize?: number;
+}
+
+export interface ProcessLimitExceededEvent {
+  pid: number;
+  limit: 'memory' | 'cpuTime' | 'wallTime' | 'outputSize';
+  /** What was measured, in the unit of the limit */
+  value: number;
+  max: number;
 }
 
 // Watch paths options type definition
@@ -50,9 +96,20 @@ export interface ContainerRequest {
 export type ContainerOperation =
   | FileSystemOperation
   | ProcessOperation
+  | ExecOperation
+  | ShellOperation
+  | ProcessLogOperation
   | WatchOperation
   | WatchPathsOperation
-  | AuthOperation;
+  | AuthOperation
+  | FileTransferOperation
+  | BatchOperation
+  | SearchOperation
+  | FindOperation
+  | SnapshotOperation
+  | SyncOperation
+  | ReadTreeOperation
+  | FileHistoryOperation;
 
 export interface ContainerResponse<T = any> {
   success: boolean;
@@ -75,19 +132,446 @@ export interface ContainerEventMessage<T = unknown> {
 
 // Operation type definitions
 export interface FileSystemOperation {
-  type: 'readFile' | 'writeFile' | 'mkdir' | 'readdir' | 'rm' | 'mount' | 'stat';
+  type:
+    | 'readFile'
+    | 'writeFile'
+    | 'mkdir'
+    | 'readdir'
+    | 'rm'
+    | 'mount'
+    | 'stat'
+    | 'rename'
+    | 'copy'
+    | 'move'
+    | 'patchFile';
   path?: string;
+  /** Destination path for rename, copy and move */
+  newPath?: string;
   content?: string | Uint8Array;
+  /** patchFile: a unified diff against the current content */
+  patch?: string;
+  /** patchFile: edits against the current content, used when no patch is given */
+  edits?: TextEdit[];
   options?: {
-    encoding?: BufferEncoding;
+    /**
+     * writeFile and patchFile fail with a 'CONFLICT' error code when the file
+     * no longer matches this version
+     */
+    expectedVersion?: Partial<Pick<FileVersion, 'hash' | 'mtime'>>;
+    encoding?: FileContentEncoding;
     withFileTypes?: boolean;
     recursive?: boolean;
     force?: boolean;
+    /** Defaults to 'error' */
+    conflict?: ConflictPolicy;
+  };
+}
+
+/**
+ * Replaces a range of the original content. Ranges refer to the content before
+ * any edit is applied and must not overlap.
+ */
+export type TextEdit =
+  /** Character offset and length */
+  | { offset: number; length: number; text: string }
+  /** 1-based inclusive line range, endLine = startLine - 1 inserts before startLine */
+  | { startLine: number; endLine: number; text: string };
+
+export interface FileVersion {
+  /** SHA-256 hex digest of the content */
+  hash: string;
+  /** mtimeMs as reported by stat */
+  mtime: number;
+  size: number;
+}
+
+export interface PathOperationResponse {
+  /** True when the destination existed and the 'skip' conflict policy left it untouched */
+  skipped: boolean;
+}
+
+/**
+ * Applies an ordered list of writeFile, mkdir, rm, rename, move and copy operations
+ * all-or-nothing: if one fails, every change made before it is rolled back.
+ */
+export interface BatchOperation {
+  type: 'batch';
+  operations: FileSystemOperation[];
+}
+
+export interface BatchOperationResult {
+  index: number;
+  type: FileSystemOperation['type'];
+  path?: string;
+  /** 'rolled-back' operations were applied and then reverted, 'skipped' ones never ran */
+  status: 'applied' | 'failed' | 'rolled-back' | 'skipped';
+  data?: PathOperationResponse | null;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+export interface BatchResponse {
+  results: BatchOperationResult[];
+  /**
+   * Whether a failed batch was reverted. When reverting fails too, the
+   * operations applied so far keep their 'applied' status.
+   */
+  rolledBack: boolean;
+}
+
+export interface FileChangeEventMessage {
+  watcherId: string;
+  eventType: string;
+  filename: string | null;
+  /** Original path for 'rename' and 'copy' events */
+  sourceFilename?: string;
+}
+
+export interface ReadFileResponse {
+  /** Omitted when encoding is 'raw'; the bytes are the binary frame payload instead */
+  content?: string;
+  encoding: FileContentEncoding;
+  size: number;
+}
+
+/**
+ * Chunked file transfers
+ * uploadStart/downloadStart open a transfer (or resume one when transferId is given),
+ * chunks are then sent or requested by index and uploads are verified on uploadFinish.
+ * A download is kept until downloadFinish, so lost chunks can be requested again.
+ * Transfers without activity expire after 30 minutes.
+ */
+export interface FileTransferOperation {
+  type:
+    | 'uploadStart'
+    | 'uploadChunk'
+    | 'uploadFinish'
+    | 'downloadStart'
+    | 'downloadChunk'
+    | 'downloadFinish'
+    | 'transferAbort';
+  path?: string;
+  transferId?: string;
+  /** Total file size in bytes, required for uploadStart */
+  size?: number;
+  /** Chunk index for uploadChunk and downloadChunk */
+  index?: number;
+  content?: string | Uint8Array;
+  /** SHA-256 hex digest the finished upload must match */
+  checksum?: string;
+  options?: {
+    chunkSize?: number;
+    /** Chunk content encoding, defaults to 'base64' */
+    encoding?: FileContentEncoding;
+  };
+}
+
+export type FileTransferDirection = 'upload' | 'download';
+
+export interface FileTransferResponse {
+  transferId: string;
+  direction: FileTransferDirection;
+  size: number;
+  chunkSize: number;
+  totalChunks: number;
+  /** Chunk indexes already transferred, used to resume after a reconnect */
+  completedChunks: number[];
+  /** SHA-256 hex digest of the file, known for downloads and finished uploads */
+  checksum?: string;
+}
+
+export interface FileChunkResponse {
+  transferId: string;
+  index: number;
+  /** Omitted when encoding is 'raw'; the bytes are the binary frame payload instead */
+  content?: string;
+  encoding: FileContentEncoding;
+  size: number;
+}
+
+export interface FileTransferProgressEvent {
+  transferId: string;
+  direction: FileTransferDirection;
+  index: number;
+  bytesTransferred: number;
+  totalBytes: number;
+  completedChunks: number;
+  totalChunks: number;
+}
+
+/**
+ * Archive import, uploaded to POST /api/workspace/import. Progress is sent to
+ * the connection given by the connectionId query parameter, see AuthResponse.
+ */
+export interface ArchiveImportProgressEvent {
+  importId: string;
+  bytesRead: number;
+  /** From Content-Length, unknown for chunked uploads */
+  totalBytes?: number;
+  entries: number;
+  currentPath?: string;
+}
+
+export interface ArchiveImportResponse {
+  importId: string;
+  files: number;
+  directories: number;
+  symlinks: number;
+  /** Uncompressed bytes written */
+  bytes: number;
+}
+
+/**
+ * Text search across the workspace. Each match is sent as a 'search-match'
+ * event while the search runs, the response carries the summary.
+ */
+export interface SearchOperation {
+  type: 'search';
+  query: string;
+  /** Directory to search, defaults to the workspace root */
+  path?: string;
+  options?: {
+    /** Treat the query as a regular expression instead of literal text */
+    regex?: boolean;
+    /** Defaults to false */
+    caseSensitive?: boolean;
+    include?: string[];
+    /** Defaults to node_modules and .git */
+    exclude?: string[];
+    /** Defaults to 1000 */
+    maxResults?: number;
+    /** Echoed in events and the response, generated when omitted */
+    searchId?: string;
+  };
+}
+
+export interface SearchMatchEvent {
+  searchId: string;
+  /** Relative to the searched directory */
+  path: string;
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+  /** The matching line, truncated for very long lines */
+  preview: string;
+}
+
+export interface SearchResponse {
+  searchId: string;
+  matches: number;
+  filesSearched: number;
+  /** True when maxResults was reached and the search stopped early */
+  limitHit: boolean;
+  durationMs: number;
+}
+
+/**
+ * Recursive listing of the workspace in a single round trip
+ */
+export interface FindOperation {
+  type: 'find';
+  /** Glob patterns, patterns without a '/' match at any depth. Everything is listed when omitted */
+  patterns?: string[];
+  /** Directory to list, defaults to the workspace root */
+  path?: string;
+  options?: {
+    /** 1 lists only the direct children of path */
+    maxDepth?: number;
+    /** Defaults to .git */
+    exclude?: string[];
+    /** Skip paths ignored by .gitignore files, defaults to true */
+    gitignore?: boolean;
+    /** Defaults to 10000 */
+    maxResults?: number;
+  };
+}
+
+export type FindEntryType = 'file' | 'directory' | 'symlink' | 'other';
+
+export interface FindEntry {
+  /** Relative to the listed directory, using '/' separators */
+  path: string;
+  type: FindEntryType;
+  size: number;
+  /** Milliseconds since the epoch */
+  mtime: number;
+}
+
+export interface FindResponse {
+  entries: FindEntry[];
+  /** True when maxResults was reached */
+  truncated: boolean;
+}
+
+/**
+ * Workspace restore points. File contents are stored content-addressed,
+ * so unchanged files are shared between snapshots.
+ */
+export interface SnapshotOperation {
+  type: 'snapshotCreate' | 'snapshotList' | 'snapshotDiff' | 'snapshotRestore' | 'snapshotDelete';
+  /** Required for snapshotDiff, snapshotRestore and snapshotDelete */
+  snapshotId?: string;
+  /** snapshotDiff compares against this snapshot instead of the current workspace */
+  against?: string;
+  options?: {
+    /** Label for snapshotCreate */
+    name?: string;
+    /** Paths left out of the snapshot and untouched by restore, defaults to node_modules and .git */
+    exclude?: string[];
+  };
+}
+
+export interface SnapshotInfo {
+  id: string;
+  name?: string;
+  /** Milliseconds since the epoch */
+  createdAt: number;
+  files: number;
+  /** Total size of the snapshotted files in bytes */
+  size: number;
+  exclude: string[];
+}
+
+/**
+ * Workspace-relative paths that differ between two states
+ */
+export interface SnapshotDiff {
+  added: string[];
+  modified: string[];
+  deleted: string[];
+}
+
+export interface SnapshotRestoreResponse {
+  snapshot: SnapshotInfo;
+  /** Changes restore made to the workspace */
+  changes: SnapshotDiff;
+}
+
+/**
+ * Per-file undo history. The previous contents of a file are kept for every
+ * writeFile, patchFile, rm and mount, up to a bounded number of versions.
+ */
+export interface FileHistoryOperation {
+  type: 'fileHistory' | 'restoreFileVersion';
+  path: string;
+  /** restoreFileVersion: the version to put back */
+  versionId?: string;
+}
+
+export type FileHistoryOperationType =
+  | 'writeFile'
+  | 'patchFile'
+  | 'rm'
+  | 'mount'
+  | 'restoreFileVersion'
+  | 'snapshotRestore'
+  | 'archiveImport';
+
+export interface FileHistoryVersion {
+  versionId: string;
+  /** When this content was replaced, in milliseconds since the epoch */
+  timestamp: number;
+  /** The operation that replaced it */
+  operation: FileHistoryOperationType;
+  /** Connection that sent the operation */
+  connectionId?: string;
+  /** False when the file did not exist yet, restoring such a version removes the file */
+  exists: boolean;
+  size: number;
+}
+
+export interface FileHistoryResponse {
+  path: string;
+  /** Newest first */
+  versions: FileHistoryVersion[];
+}
+
+export interface RestoreFileVersionResponse {
+  path: string;
+  restored: FileHistoryVersion;
+}
+
+/**
+ * Manifest based workspace sync. syncManifest compares the client's files with
+ * the workspace, syncApply then mounts only the differing files and removes extras.
+ */
+export interface SyncOperation {
+  type: 'syncManifest' | 'syncApply';
+  /** Directory to sync, defaults to the workspace root */
+  path?: string;
+  /** syncManifest: relative file paths mapped to the SHA-256 hex digest of their contents */
+  manifest?: Record<string, string>;
+  /** syncApply: missing and changed files */
+  tree?: FileSystemTree;
+  /** syncApply: relative paths of extra files to remove */
+  remove?: string[];
+  options?: {
+    /** Paths ignored by syncManifest, defaults to node_modules and .git */
+    exclude?: string[];
   };
 }
 
+export interface SyncManifestResponse {
+  /** In the manifest but not in the workspace */
+  missing: string[];
+  /** Content differs from the manifest */
+  changed: string[];
+  /** In the workspace but not in the manifest */
+  extra: string[];
+}
+
+export interface SyncApplyResponse {
+  written: number;
+  removed: number;
+}
+
+/**
+ * Reads a directory into a FileSystemTree, the inverse of mount
+ */
+export interface ReadTreeOperation {
+  type: 'readTree';
+  /** Directory to read, defaults to the workspace root */
+  path?: string;
+  options?: {
+    /** Defaults to node_modules and .git */
+    exclude?: string[];
+    /** Larger files are marked as skipped, defaults to 1 MiB */
+    maxFileSize?: number;
+  };
+}
+
+export interface ReadTreeResponse {
+  tree: FileSystemTree;
+  files: number;
+  /** Files marked as skipped, their contents are empty */
+  skipped: number;
+}
+
+/**
+ * Broadcast as a 'quota-warning' event when workspace disk usage rises past
+ * one of the configured thresholds. Writes beyond the limit fail with the
+ * 'QUOTA_EXCEEDED' error code.
+ */
+export interface QuotaWarningEvent {
+  usedBytes: number;
+  limitBytes: number;
+  /** The threshold that was crossed, as a fraction of the limit */
+  threshold: number;
+}
+
 export interface ProcessOperation {
-  type: 'spawn' | 'input' | 'resize' | 'kill';
+  type:
+    | 'spawn'
+    | 'input'
+    | 'resize'
+    | 'signal'
+    | 'terminalStatus'
+    | 'kill'
+    | 'attach'
+    | 'listProcesses';
   command?: string;
   args?: string[];
   pid?: number;
@@ -95,12 +579,195 @@ export interface ProcessOperation {
   cols?: number;
   rows?: number;
   options?: SpawnOptions;
+  /**
+   * For kill: signal name, SIGTERM by default. For signal: required, sent only
+   * to the program in the terminal, e.g. SIGINT as if Ctrl+C was pressed
+   */
+  signal?: string;
+  /** For kill: send SIGKILL to processes that are still running after gracePeriod */
+  graceful?: boolean;
+  /** For kill with graceful: milliseconds, 5000 by default */
+  gracePeriod?: number;
+}
+
+/**
+ * Kill signals the process along with its descendants and their process groups
+ */
+export interface KillResponse {
+  signal: string;
+  /** Processes the signal was sent to */
+  pids: number[];
+  /** Processes known to have exited by the time of the response */
+  terminated: number[];
+  /** Processes that outlived the grace period and were sent SIGKILL */
+  escalated: number[];
 }
 
 export interface ProcessResponse {
   pid: number;
 }
 
+/**
+ * Runs a command to completion without a terminal, e.g. a compiler or a linter.
+ * The command is not run through a shell.
+ */
+export interface ExecOperation {
+  type: 'exec';
+  command: string;
+  args?: string[];
+  options?: {
+    /** Relative to the workspace, the workspace root by default */
+    cwd?: string;
+    env?: Record<string, string>;
+    /** Milliseconds until the command is terminated, 30 seconds by default */
+    timeout?: number;
+    /** Bytes kept per stream, 1 MiB by default. The command is terminated once it writes more */
+    maxOutputSize?: number;
+    /** Written to stdin, which is closed right away either way */
+    input?: string;
+  };
+}
+
+export interface ExecResponse {
+  stdout: string;
+  stderr: string;
+  /** Null when the command was ended by a signal */
+  exitCode: number | null;
+  signal: string | null;
+  /** Milliseconds */
+  duration: number;
+  timedOut: boolean;
+  /** Whether output was dropped because of maxOutputSize */
+  truncated: boolean;
+}
+
+/**
+ * Persistent shell sessions run by the agent. The shell is a regular process,
+ * its output is also sent as process events. Commands run one after another
+ * and share the shell's working directory and environment.
+ */
+export interface ShellOperation {
+  type: 'shellStart' | 'shellExecute' | 'shellClose';
+  /** For shellExecute and shellClose */
+  sessionId?: string;
+  /** For shellExecute */
+  command?: string;
+  /** For shellExecute, milliseconds until the command is interrupted with Ctrl-C */
+  timeout?: number;
+  /** For shellStart, zsh by default */
+  options?: SpawnOptions & { shell?: 'zsh' | 'bash' };
+}
+
+export interface ShellStartResponse {
+  sessionId: string;
+  pid: number;
+}
+
+/**
+ * A process spawned through the agent. Exited processes are listed for a while
+ * after their exit, as long as their output can still be attached to.
+ */
+export interface ProcessInfo {
+  pid: number;
+  command: string;
+  args: string[];
+  /** Working directory, relative to the workspace */
+  cwd: string;
+  startedAt: number;
+  status: 'running' | 'exited';
+  exitCode?: number;
+  /** Signal that killed the process, exitCode is missing then */
+  signal?: string;
+  /** Connections receiving the output of the process */
+  clients: number;
+  terminal: {
+    cols: number;
+    rows: number;
+  };
+}
+
+export interface ListProcessesResponse {
+  /** Oldest first */
+  processes: ProcessInfo[];
+}
+
+/**
+ * Sent after the buffered output of the process was replayed as process events
+ */
+export interface AttachResponse {
+  pid: number;
+  /** Characters of output replayed */
+  replayed: number;
+  /** False when the process has already exited, its exit event was part of the replay */
+  running: boolean;
+}
+
+/**
+ * Acknowledges a resize, signal or terminalStatus request with the size the terminal now has
+ */
+export interface ResizeResponse {
+  pid: number;
+  cols: number;
+  rows: number;
+}
+
+/**
+ * Part of the output log of a process. Byte offsets and line numbers count from
+ * the first output of the process, also after older output was rotated away.
+ * Without options the whole retained log is read.
+ */
+export interface ProcessLogRange {
+  /** First byte offset */
+  start?: number;
+  /** Byte offset after the last byte */
+  end?: number;
+  /** First line, starting at 1 */
+  startLine?: number;
+  /** Last line, inclusive */
+  endLine?: number;
+  /** Reads the last lines of the output instead */
+  tail?: number;
+}
+
+/**
+ * Reads the output a spawned process has written so far, or follows it with
+ * 'process-log' events. Logs are kept for a while after the process exits,
+ * but not across a restart of the agent.
+ */
+export interface ProcessLogOperation {
+  type: 'readProcessLog' | 'followProcessLog' | 'unfollowProcessLog';
+  pid: number;
+  /** For followProcessLog: only start, where to continue from. The end of the log by default */
+  options?: ProcessLogRange;
+}
+
+export interface ProcessLogResponse {
+  pid: number;
+  content: string;
+  /** Byte offsets of the content */
+  start: number;
+  end: number;
+  /** Bytes of output written so far */
+  size: number;
+  /** Oldest byte offset still in the log */
+  firstOffset: number;
+  running: boolean;
+}
+
+export interface FollowProcessLogResponse {
+  pid: number;
+  /** Byte offset the first 'process-log' event starts at */
+  offset: number;
+}
+
+export interface ProcessLogEvent {
+  pid: number;
+  offset: number;
+  data: string;
+  /** Set on the last event, once the process has exited */
+  end?: boolean;
+}
+
 export interface WatchResponse {
   watcherId: string;
 }
@@ -129,6 +796,11 @@ export interface AuthOperation {
   token: string;
 }
 
+export interface AuthResponse {
+  /** Identifies this connection, e.g. as the connectionId of an archive import */
+  connectionId: string;
+}
+
 // Event listeners collection
 export interface EventListeners {
   port: Set<PortListener>;
@@ -181,13 +853,28 @@ export interface ShellSession {
 export interface FileNode {
   file: {
     contents: string;
+    /** How contents is encoded, defaults to 'utf-8'. Binary files use 'base64' */
+    encoding?: 'utf-8' | 'base64';
+    /** POSIX permission bits, e.g. 0o755 for executable scripts */
+    mode?: number;
+    /** Set by readTree when the contents were left out, mount leaves such files untouched */
+    skipped?: FileSkipReason;
   };
 }
 
+export type FileSkipReason = 'binary' | 'too-large';
+
 export interface DirectoryNode {
   directory: FileSystemTree;
 }
 
+export interface SymlinkNode {
+  symlink: {
+    /** Relative to the link's directory, must stay inside the workspace */
+    target: string;
+  };
+}
+
 export interface FileSystemTree {
-  [name: string]: FileNode | DirectoryNode;
+  [name: string]: FileNode | DirectoryNode | SymlinkNode;
 }
@@ -1,5 +1,7 @@
 import * as pty from 'node-pty';
-import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as net from 'net';
+import { ControlReply, ControlRequest, PtyStatus } from './types';
 
 /**
  * A simple wrapper around node-pty to provide terminal emulation capabilities
@@ -10,6 +12,9 @@ import { spawn } from 'child_process';
  * - Remaining args: arguments to the command
  * - Special argument --cols=N: set terminal columns
  * - Special argument --rows=N: set terminal rows
+ *
+ * When started with the control pipes open, fd 3 carries resize, signal and
+ * status requests from the server and fd 4 the replies, one JSON object per line.
  */
 
 // Extract cols and rows from arguments
@@ -59,23 +64,93 @@ process.stdin.on('data', (data) => {
   ptyProcess.write(data.toString());
 });
 
-// Forward resize events
-process.on('message', (message: any) => {
-  if (message && message.type === 'resize' && message.cols && message.rows) {
-    ptyProcess.resize(message.cols, message.rows);
+function handleControlRequest(request: ControlRequest): PtyStatus {
+  switch (request.type) {
+    case 'resize': {
+      const { cols, rows } = request;
+      if (!(Number.isInteger(cols) && Number.isInteger(rows) && cols > 0 && rows > 0)) {
+        throw new Error(`Invalid terminal size ${cols}x${rows}`);
+      }
+      // Changing the size sends SIGWINCH to the program in the foreground
+      ptyProcess.resize(cols, rows);
+      break;
+    }
+    case 'signal': {
+      ptyProcess.kill(request.signal);
+      break;
+    }
+    case 'status': {
+      break;
+    }
+    default: {
+      throw new Error(`Unknown control request: ${(request as { type: string }).type}`);
+    }
   }
-});
+  return { pid: ptyProcess.pid, cols: ptyProcess.cols, rows: ptyProcess.rows };
+}
+
+function openControlChannel(): void {
+  try {
+    fs.fstatSync(3);
+    fs.fstatSync(4);
+  } catch {
+    // Started without control pipes, e.g. by hand
+    return;
+  }
+
+  const requests = new net.Socket({ fd: 3, readable: true, writable: false });
+  const replies = fs.createWriteStream('', { fd: 4 });
+  let buffered = '';
+
+  requests.setEncoding('utf-8');
+  requests.on('data', (chunk: string) => {
+    const lines = (buffered + chunk).split('\n');
+    buffered = lines.pop() ?? '';
 
-// Handle exit
-ptyProcess.onExit(({ exitCode }) => {
+    for (const line of lines.filter((text) => text.trim())) {
+      let reply: ControlReply;
+      let request: ControlRequest | undefined;
+      try {
+        request = JSON.parse(line) as ControlRequest;
+        reply = { id: request.id, ok: true, status: handleControlRequest(request) };
+      } catch (error) {
+        reply = {
+          id: request?.id ?? 0,
+          ok: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+      replies.write(`${JSON.stringify(reply)}\n`);
+    }
+  });
+  // The server going away must not take the terminal down with an unhandled error
+  requests.on('error', logControlError);
+  replies.on('error', logControlError);
+}
+
+function logControlError(error: Error): void {
+  process.stderr.write(`pty-wrapper: control channel error: ${error.message}\n`);
+}
+
+openControlChannel();
+
+// Exit the way the program did, so the server learns the signal that killed it
+ptyProcess.onExit(({ exitCode, signal }) => {
+  if (signal) {
+    process.removeAllListeners('SIGTERM');
+    process.removeAllListeners('SIGINT');
+    process.kill(process.pid, signal);
+    // Signals that do not terminate by default end up here
+    process.exit(128 + signal);
+  }
   process.exit(exitCode);
 });
 
-// Handle signals
+// Pass termination signals on to the program
 process.on('SIGTERM', () => {
-  ptyProcess.kill();
+  ptyProcess.kill('SIGTERM');
 });
 
 process.on('SIGINT', () => {
-  ptyProcess.kill();
+  ptyProcess.kill('SIGINT');
 });
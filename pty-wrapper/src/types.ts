@@ -17,3 +17,27 @@ export interface ResizeOptions {
 export interface ExitStatus {
   exitCode: number;
 }
+
+/**
+ * Requests the server sends on the control pipe (fd 3), one JSON object per line
+ */
+export type ControlRequest =
+  | { id: number; type: "resize"; cols: number; rows: number }
+  | { id: number; type: "signal"; signal: string }
+  | { id: number; type: "status" };
+
+export interface PtyStatus {
+  pid: number;
+  cols: number;
+  rows: number;
+}
+
+/**
+ * Replies written to the reply pipe (fd 4), one per request
+ */
+export interface ControlReply {
+  id: number;
+  ok: boolean;
+  error?: string;
+  status?: PtyStatus;
+}
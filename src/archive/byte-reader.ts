@@ -0,0 +1,97 @@
+import { Buffer } from "node:buffer";
+
+/**
+ * Pulls exact byte counts out of a chunked stream, for parsing sequential formats.
+ */
+export class ByteReader {
+  private readonly iterator: AsyncIterator<Uint8Array>;
+  private buffer: Buffer = Buffer.alloc(0);
+  private ended = false;
+  private remaining = 0;
+
+  constructor(chunks: AsyncIterable<Uint8Array>) {
+    this.iterator = chunks[Symbol.asyncIterator]();
+  }
+
+  /**
+   * Reads exactly length bytes, or returns null when the stream ended cleanly before them.
+   */
+  async read(length: number): Promise<Buffer | null> {
+    await this.fill(length);
+    if (this.buffer.byteLength === 0) {
+      return null;
+    }
+    if (this.buffer.byteLength < length) {
+      throw new Error("Unexpected end of archive");
+    }
+    return this.take(length);
+  }
+
+  async readExactly(length: number): Promise<Buffer> {
+    const data = await this.read(length);
+    if (!data) {
+      throw new Error("Unexpected end of archive");
+    }
+    return data;
+  }
+
+  async skip(length: number): Promise<void> {
+    let left = length;
+    while (left > 0) {
+      left -= (await this.next(left)).byteLength;
+    }
+  }
+
+  /**
+   * Streams the next length bytes as they arrive. Whatever the consumer leaves
+   * unread is dropped by the next discardStream call.
+   */
+  stream(length: number): AsyncGenerator<Buffer> {
+    this.remaining = length;
+    const reader = this;
+    return (async function* () {
+      while (reader.remaining > 0) {
+        const chunk = await reader.next(reader.remaining);
+        reader.remaining -= chunk.byteLength;
+        yield chunk;
+      }
+    })();
+  }
+
+  async discardStream(): Promise<void> {
+    const left = this.remaining;
+    this.remaining = 0;
+    await this.skip(left);
+  }
+
+  /**
+   * Returns up to length buffered bytes, waiting for at least one.
+   */
+  private async next(length: number): Promise<Buffer> {
+    await this.fill(1);
+    if (this.buffer.byteLength === 0) {
+      throw new Error("Unexpected end of archive");
+    }
+    return this.take(Math.min(length, this.buffer.byteLength));
+  }
+
+  private take(length: number): Buffer {
+    const data = this.buffer.subarray(0, length);
+    this.buffer = this.buffer.subarray(length);
+    return data;
+  }
+
+  private async fill(length: number): Promise<void> {
+    while (this.buffer.byteLength < length && !this.ended) {
+      const result = await this.iterator.next();
+      if (result.done) {
+        this.ended = true;
+      } else {
+        this.buffer =
+          this.buffer.byteLength > 0
+            ? Buffer.concat([this.buffer, result.value])
+            : Buffer.from(result.value);
+      }
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { type WalkEntry, type WalkOptions, walkWorkspace } from "../filesystem/walk.ts";
+import { createTarStream } from "./tar.ts";
+import { createZipStream } from "./zip.ts";
+
+export type ArchiveFormat = "tar" | "tar.gz" | "zip";
+
+export const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  tar: "application/x-tar",
+  "tar.gz": "application/gzip",
+  zip: "application/zip",
+};
+
+export function parseArchiveFormat(value: string | null): ArchiveFormat {
+  switch (value) {
+    case null:
+    case "tgz":
+    case "tar.gz":
+      return "tar.gz";
+    case "tar":
+    case "zip":
+      return value;
+    default:
+      throw new Error(`Unsupported archive format: ${value}`);
+  }
+}
+
+function toReadableStream(chunks: AsyncGenerator<Uint8Array>): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+/**
+ * Streams a directory as an archive.
+ * Directory entries are only written when no include patterns are given,
+ * otherwise they are implied by the included files.
+ */
+export function createWorkspaceArchive(
+  root: string,
+  format: ArchiveFormat,
+  options: Pick<WalkOptions, "include" | "exclude" | "ignore"> = {},
+): ReadableStream {
+  const hasIncludes = (options.include ?? []).length > 0;
+
+  async function* entries(): AsyncGenerator<WalkEntry> {
+    for await (const entry of walkWorkspace(root, options)) {
+      if (!(hasIncludes && entry.stats.isDirectory())) {
+        yield entry;
+      }
+    }
+  }
+
+  const archive = toReadableStream(
+    format === "zip" ? createZipStream(entries()) : createTarStream(entries()),
+  );
+  if (format !== "tar.gz") {
+    return archive;
+  }
+  return (archive as ReadableStream<BufferSource>).pipeThrough(new CompressionStream("gzip"));
+}
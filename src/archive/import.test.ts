@@ -0,0 +1,135 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import {
+  chmod,
+  lstat,
+  mkdir,
+  mkdtemp,
+  readFile,
+  readdir,
+  readlink,
+  rm,
+  symlink,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createWorkspaceArchive } from "./export.ts";
+import { extractArchive } from "./import.ts";
+import { createTarStream } from "./tar.ts";
+
+describe("extractArchive", () => {
+  let dir: string;
+  let source: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "import-test-"));
+    source = join(dir, "source");
+    await mkdir(join(source, "bin"), { recursive: true });
+    await writeFile(join(source, "bin/run.sh"), "#!/bin/sh\necho hi\n");
+    await chmod(join(source, "bin/run.sh"), 0o755);
+    await writeFile(join(source, "readme.md"), "x".repeat(2000));
+    await symlink("bin/run.sh", join(source, "run"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  for (const format of ["tar", "tar.gz", "zip"] as const) {
+    it(`should extract a ${format} export with modes and symlinks`, async () => {
+      const target = join(dir, `target-${format}`);
+      const progress: number[] = [];
+      const result = await extractArchive(createWorkspaceArchive(source, format), target, {
+        onProgress: ({ entries }) => progress.push(entries),
+      });
+
+      expect(result).toEqual({ files: 2, directories: 1, symlinks: 1, bytes: 2018 });
+      expect(progress.at(-1)).toBe(4);
+      expect(await readFile(join(target, "readme.md"), "utf-8")).toBe("x".repeat(2000));
+      expect((await lstat(join(target, "bin/run.sh"))).mode & 0o777).toBe(0o755);
+      expect(await readlink(join(target, "run"))).toBe("bin/run.sh");
+    });
+  }
+
+  it("should reject entries that escape the target", async () => {
+    const file = join(source, "readme.md");
+    const entries = async function* () {
+      yield { path: "ok.txt", fullPath: file, stats: await lstat(file) };
+      yield { path: "../escape.txt", fullPath: file, stats: await lstat(file) };
+    };
+    const target = join(dir, "target-traversal");
+
+    await expect(extractArchive(createTarStream(entries()), target)).rejects.toThrow(
+      "escapes the target directory",
+    );
+    // Nothing is merged into the target when the archive is rejected
+    expect(await readdir(target)).toEqual([]);
+    expect(await lstat(join(dir, "escape.txt")).catch(() => null)).toBeNull();
+  });
+
+  it("should reject symlinks that point outside the target", async () => {
+    const evil = join(dir, "evil");
+    await mkdir(evil);
+    await symlink(".", join(evil, "self"));
+    // Only escapes once "self" is followed, which a purely lexical check misses
+    await mkdir(join(evil, "nested"));
+    await symlink("../self/..", join(evil, "nested/up"));
+
+    const target = join(dir, "target-symlink");
+    await expect(extractArchive(createWorkspaceArchive(evil, "tar"), target)).rejects.toThrow(
+      "points outside the target directory",
+    );
+    expect(await readdir(target)).toEqual([]);
+  });
+
+  it("should abort once the extracted bytes exceed the limit", async () => {
+    const target = join(dir, "target-limit");
+    const checked: number[] = [];
+    const checkBytes = (bytes: number) => {
+      checked.push(bytes);
+      if (bytes > 1000) {
+        throw new Error("Too large");
+      }
+    };
+
+    await expect(
+      extractArchive(createWorkspaceArchive(source, "tar.gz"), target, { checkBytes }),
+    ).rejects.toThrow("Too large");
+    expect(checked.at(-1)).toBeGreaterThan(1000);
+    expect(await readdir(target)).toEqual([]);
+  });
+
+  it("should check directories replaced by a file before merging", async () => {
+    const target = join(dir, "target-replace");
+    await mkdir(join(target, "readme.md/protected"), { recursive: true });
+    const replaced: string[] = [];
+    const checkReplace = (fullPath: string) => {
+      replaced.push(fullPath);
+      return Promise.reject(new Error("Read-only"));
+    };
+
+    await expect(
+      extractArchive(createWorkspaceArchive(source, "tar"), target, { checkReplace }),
+    ).rejects.toThrow("Read-only");
+    expect(replaced).toEqual([join(target, "readme.md")]);
+    expect(await readdir(join(target, "readme.md"))).toEqual(["protected"]);
+  });
+
+  it("should run the merge through the hook with the paths it creates or replaces", async () => {
+    const target = join(dir, "target-merge");
+    await mkdir(join(target, "bin"), { recursive: true });
+    await writeFile(join(target, "readme.md"), "old");
+    const merged: string[][] = [];
+
+    await extractArchive(createWorkspaceArchive(source, "tar"), target, {
+      merge: async (fullPaths, merge) => {
+        merged.push(fullPaths.toSorted());
+        expect(await readFile(join(target, "readme.md"), "utf-8")).toBe("old");
+        await merge();
+      },
+    });
+
+    expect(merged).toEqual([["bin/run.sh", "readme.md", "run"].map((path) => join(target, path))]);
+    expect(await readFile(join(target, "readme.md"), "utf-8")).toBe("x".repeat(2000));
+  });
+});
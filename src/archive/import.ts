@@ -0,0 +1,436 @@
+import { randomUUID } from "node:crypto";
+import { once } from "node:events";
+import { createWriteStream } from "node:fs";
+import {
+  chmod,
+  copyFile,
+  lstat,
+  mkdir,
+  open,
+  readdir,
+  realpath,
+  rename,
+  rm,
+  symlink,
+  utimes,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, isAbsolute, join, relative } from "node:path";
+import { Readable } from "node:stream";
+import { finished } from "node:stream/promises";
+import { createGunzip } from "node:zlib";
+import type {
+  ArchiveImportProgressEvent,
+  ArchiveImportResponse,
+} from "../../protocol/src/index.ts";
+import type { ArchiveFormat } from "./export.ts";
+import { readTarEntries } from "./tar.ts";
+import type { ArchiveEntry } from "./types.ts";
+import { readZipEntries } from "./zip.ts";
+
+const PROGRESS_INTERVAL_MS = 100;
+const PATH_SEPARATORS = /[\\/]+/;
+const WINDOWS_DRIVE_PREFIX = /^[a-zA-Z]:/;
+
+export type ArchiveImportProgress = Omit<ArchiveImportProgressEvent, "importId">;
+export type ArchiveImportResult = Omit<ArchiveImportResponse, "importId">;
+
+export interface ExtractArchiveOptions {
+  /** Detected from the leading bytes when omitted */
+  format?: ArchiveFormat;
+  totalBytes?: number;
+  /** Where zip uploads are spooled, they can only be read from a file */
+  tempDir?: string;
+  onProgress?: (progress: ArchiveImportProgress) => void;
+  /** Called with each entry path before it is extracted, throws to reject the archive */
+  checkPath?: (path: string) => void;
+  /** Called with the total bytes extracted so far before more are written, throws to abort */
+  checkBytes?: (bytes: number) => void;
+  /** Called with each existing directory an entry replaces, before anything is merged */
+  checkReplace?: (fullPath: string) => Promise<void>;
+  /**
+   * Runs the merge into the target, e.g. under locks and with file history.
+   * Gets every path the merge creates or replaces; directories that are merged
+   * into are left out.
+   */
+  merge?: (fullPaths: string[], merge: () => Promise<void>) => Promise<void>;
+}
+
+function detectFormat(head: Uint8Array): ArchiveFormat {
+  if (head[0] === 0x1f && head[1] === 0x8b) {
+    return "tar.gz";
+  }
+  // "PK" followed by a local file header or an empty archive's end record
+  if (head[0] === 0x50 && head[1] === 0x4b && (head[2] === 0x03 || head[2] === 0x05)) {
+    return "zip";
+  }
+  return "tar";
+}
+
+/**
+ * Validates an archive path and turns it into a relative path with "/" separators.
+ * Returns an empty string for the archive root itself.
+ */
+export function normalizeEntryPath(path: string): string {
+  if (isAbsolute(path) || path.startsWith("\\") || WINDOWS_DRIVE_PREFIX.test(path)) {
+    throw new Error(`Archive entry has an absolute path: ${path}`);
+  }
+  const segments = path.split(PATH_SEPARATORS).filter((segment) => segment && segment !== ".");
+  if (segments.includes("..")) {
+    throw new Error(`Archive entry escapes the target directory: ${path}`);
+  }
+  return segments.join("/");
+}
+
+function isWithin(root: string, path: string): boolean {
+  const relativePath = relative(root, path);
+  return relativePath === "" || !(relativePath.startsWith("..") || isAbsolute(relativePath));
+}
+
+/**
+ * Resolves a path through the symlinks that already exist on disk,
+ * keeping the part that does not exist yet as is.
+ */
+async function resolveExisting(path: string): Promise<string> {
+  try {
+    return await realpath(path);
+  } catch {
+    const parent = dirname(path);
+    return parent === path ? path : join(await resolveExisting(parent), relative(parent, path));
+  }
+}
+
+/**
+ * Resolves a symlink target relative to a directory the way the kernel does,
+ * following links that already exist at each step.
+ */
+async function resolveLinkTarget(directory: string, target: string): Promise<string> {
+  let current = directory;
+  for (const segment of target.split("/")) {
+    if (segment === "..") {
+      current = dirname(current);
+    } else if (segment && segment !== ".") {
+      const next = join(current, segment);
+      current = await realpath(next).catch(() => next);
+    }
+  }
+  return current;
+}
+
+/**
+ * Yields the first chunk again after peeking at it.
+ */
+async function peek(
+  chunks: AsyncIterable<Uint8Array>,
+): Promise<{ head: Uint8Array; chunks: AsyncIterable<Uint8Array> }> {
+  const iterator = chunks[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  const head = first.done ? new Uint8Array() : first.value;
+
+  async function* replay(): AsyncGenerator<Uint8Array> {
+    if (!first.done) {
+      yield first.value;
+    }
+    while (true) {
+      const next = await iterator.next();
+      if (next.done) {
+        return;
+      }
+      yield next.value;
+    }
+  }
+
+  return { head, chunks: replay() };
+}
+
+function gunzip(chunks: AsyncIterable<Uint8Array>): AsyncIterable<Uint8Array> {
+  const source = Readable.from(chunks);
+  const decompress = createGunzip();
+  source.on("error", (error) => decompress.destroy(error));
+  return source.pipe(decompress);
+}
+
+async function spool(chunks: AsyncIterable<Uint8Array>, path: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const output = createWriteStream(path);
+  try {
+    for await (const chunk of chunks) {
+      if (!output.write(chunk)) {
+        await once(output, "drain");
+      }
+    }
+  } finally {
+    output.end();
+    await finished(output);
+  }
+}
+
+/**
+ * Writes archive entries into a fresh staging directory. Symlinks are created
+ * last and validated against the final tree, so no entry can be written
+ * through a link and no link can point outside the staging directory.
+ */
+class ArchiveExtractor {
+  readonly result: ArchiveImportResult = { files: 0, directories: 0, symlinks: 0, bytes: 0 };
+  /** Directory modes are applied after the import, so they do not block writes */
+  readonly directoryModes = new Map<string, number>();
+  private readonly symlinks: { path: string; target: string }[] = [];
+  private readonly root: string;
+  private readonly checkBytes?: (bytes: number) => void;
+
+  constructor(root: string, checkBytes?: (bytes: number) => void) {
+    this.root = root;
+    this.checkBytes = checkBytes;
+  }
+
+  async write(entry: ArchiveEntry, path: string): Promise<void> {
+    const fullPath = join(this.root, path);
+    switch (entry.type) {
+      case "directory": {
+        await mkdir(fullPath, { recursive: true });
+        this.directoryModes.set(path, entry.mode & 0o7777);
+        this.result.directories++;
+        break;
+      }
+      case "symlink": {
+        this.symlinks.push({ path, target: entry.linkTarget ?? "" });
+        break;
+      }
+      case "hardlink": {
+        await this.writeHardlink(fullPath, normalizeEntryPath(entry.linkTarget ?? ""));
+        break;
+      }
+      default: {
+        await this.writeFile(fullPath, entry);
+      }
+    }
+  }
+
+  async createSymlinks(): Promise<void> {
+    for (const { path, target } of this.symlinks) {
+      const fullPath = join(this.root, path);
+      if (!isWithin(this.root, await resolveExisting(dirname(fullPath)))) {
+        throw new Error(`Archive entry is placed behind a symlink: ${path}`);
+      }
+      await this.prepare(fullPath);
+      await symlink(target, fullPath);
+      await this.checkSymlink(path, target);
+      this.result.symlinks++;
+    }
+    // A later link can change where an earlier one resolves to, so check them all again
+    for (const { path, target } of this.symlinks) {
+      await this.checkSymlink(path, target);
+    }
+  }
+
+  private async checkSymlink(path: string, target: string): Promise<void> {
+    if (isAbsolute(target)) {
+      throw new Error(`Archive symlink has an absolute target: ${path} -> ${target}`);
+    }
+    const directory = await resolveExisting(dirname(join(this.root, path)));
+    if (!isWithin(this.root, await resolveLinkTarget(directory, target))) {
+      throw new Error(`Archive symlink points outside the target directory: ${path} -> ${target}`);
+    }
+  }
+
+  /**
+   * Creates the parent directories and removes an earlier entry with the same path.
+   */
+  private async prepare(fullPath: string): Promise<void> {
+    await mkdir(dirname(fullPath), { recursive: true });
+    await rm(fullPath, { recursive: true, force: true });
+  }
+
+  private async writeFile(fullPath: string, entry: ArchiveEntry): Promise<void> {
+    await this.prepare(fullPath);
+    const mode = entry.mode & 0o7777;
+    const handle = await open(fullPath, "wx", mode);
+    try {
+      for await (const chunk of entry.content) {
+        // Checked as the data arrives, the sizes an archive declares cannot be trusted
+        this.checkBytes?.(this.result.bytes + chunk.byteLength);
+        await handle.write(chunk);
+        this.result.bytes += chunk.byteLength;
+      }
+    } finally {
+      await handle.close();
+    }
+    // The mode passed to open is subject to the umask
+    await chmod(fullPath, mode);
+    await utimes(fullPath, entry.mtime, entry.mtime);
+    this.result.files++;
+  }
+
+  private async writeHardlink(fullPath: string, linkTarget: string): Promise<void> {
+    const source = join(this.root, linkTarget);
+    const stats = await lstat(source).catch(() => null);
+    if (!stats?.isFile()) {
+      throw new Error(`Archive hardlink target is not an extracted file: ${linkTarget}`);
+    }
+    this.checkBytes?.(this.result.bytes + stats.size);
+    await this.prepare(fullPath);
+    // Linking would share the inode with the staging copy, a copy is independent
+    await copyFile(source, fullPath);
+    this.result.bytes += stats.size;
+    this.result.files++;
+  }
+}
+
+/**
+ * Moves the staged tree into the target, merging directories and replacing
+ * everything else. Existing symlinks in the target are replaced, never followed.
+ */
+async function mergeInto(source: string, destination: string): Promise<void> {
+  for (const name of await readdir(source)) {
+    const from = join(source, name);
+    const to = join(destination, name);
+    const [fromStats, toStats] = await Promise.all([lstat(from), lstat(to).catch(() => null)]);
+
+    if (fromStats.isDirectory() && toStats?.isDirectory()) {
+      await mergeInto(from, to);
+      continue;
+    }
+    if (toStats) {
+      await rm(to, { recursive: true, force: true });
+    }
+    await rename(from, to);
+  }
+}
+
+/**
+ * Existing directories that mergeInto would replace with a file or a symlink.
+ */
+async function findReplacedDirectories(source: string, destination: string): Promise<string[]> {
+  const replaced: string[] = [];
+  for (const name of await readdir(source)) {
+    const from = join(source, name);
+    const to = join(destination, name);
+    const [fromStats, toStats] = await Promise.all([lstat(from), lstat(to).catch(() => null)]);
+
+    if (toStats?.isDirectory()) {
+      if (fromStats.isDirectory()) {
+        replaced.push(...(await findReplacedDirectories(from, to)));
+      } else {
+        replaced.push(to);
+      }
+    }
+  }
+  return replaced;
+}
+
+/**
+ * Paths mergeInto creates or replaces, everything but the directories it merges into.
+ */
+async function findMergedPaths(source: string, destination: string): Promise<string[]> {
+  const merged: string[] = [];
+  for (const name of await readdir(source)) {
+    const from = join(source, name);
+    const to = join(destination, name);
+    const [fromStats, toStats] = await Promise.all([lstat(from), lstat(to).catch(() => null)]);
+
+    if (fromStats.isDirectory() && toStats?.isDirectory()) {
+      merged.push(...(await findMergedPaths(from, to)));
+    } else {
+      merged.push(to);
+    }
+  }
+  return merged;
+}
+
+function readEntries(
+  format: ArchiveFormat,
+  chunks: AsyncIterable<Uint8Array>,
+  spoolPath: string,
+): AsyncGenerator<ArchiveEntry> {
+  if (format === "tar") {
+    return readTarEntries(chunks);
+  }
+  if (format === "tar.gz") {
+    return readTarEntries(gunzip(chunks));
+  }
+  return (async function* () {
+    await spool(chunks, spoolPath);
+    yield* readZipEntries(spoolPath);
+  })();
+}
+
+/**
+ * Extracts a tar, tar.gz or zip stream into the target directory.
+ * Entries are extracted into a staging directory inside the target first and
+ * only merged once the whole archive was read and validated, so a rejected
+ * archive leaves the workspace untouched.
+ */
+export async function extractArchive(
+  input: AsyncIterable<Uint8Array>,
+  target: string,
+  options: ExtractArchiveOptions = {},
+): Promise<ArchiveImportResult> {
+  const id = randomUUID();
+  const progress: ArchiveImportProgress = {
+    bytesRead: 0,
+    totalBytes: options.totalBytes,
+    entries: 0,
+  };
+  let lastProgress = 0;
+  const reportProgress = (force = false) => {
+    const now = Date.now();
+    if (options.onProgress && (force || now - lastProgress >= PROGRESS_INTERVAL_MS)) {
+      lastProgress = now;
+      options.onProgress({ ...progress });
+    }
+  };
+
+  async function* counted(): AsyncGenerator<Uint8Array> {
+    for await (const chunk of input) {
+      progress.bytesRead += chunk.byteLength;
+      reportProgress();
+      yield chunk;
+    }
+  }
+
+  const { head, chunks } = await peek(counted());
+  const format = options.format ?? detectFormat(head);
+
+  await mkdir(target, { recursive: true });
+  const stagingDir = join(await realpath(target), `.agent8-import-${id}`);
+  const spoolPath = join(options.tempDir ?? join(tmpdir(), "agent8-imports"), `${id}.zip`);
+  await mkdir(stagingDir);
+
+  try {
+    const extractor = new ArchiveExtractor(stagingDir, options.checkBytes);
+    for await (const entry of readEntries(format, chunks, spoolPath)) {
+      const path = normalizeEntryPath(entry.path);
+      progress.entries++;
+      progress.currentPath = path;
+      reportProgress();
+      if (path) {
+        options.checkPath?.(path);
+        await extractor.write(entry, path);
+      }
+    }
+    await extractor.createSymlinks();
+
+    for (const fullPath of await findReplacedDirectories(stagingDir, dirname(stagingDir))) {
+      await options.checkReplace?.(fullPath);
+    }
+    const merge = async () => {
+      await mergeInto(stagingDir, dirname(stagingDir));
+      // Deepest first, so read-only parents do not block changing their children
+      const directories = [...extractor.directoryModes].sort(([a], [b]) => b.length - a.length);
+      for (const [path, mode] of directories) {
+        await chmod(join(target, path), mode);
+      }
+    };
+    if (options.merge) {
+      await options.merge(await findMergedPaths(stagingDir, dirname(stagingDir)), merge);
+    } else {
+      await merge();
+    }
+
+    reportProgress(true);
+    return extractor.result;
+  } finally {
+    await rm(stagingDir, { recursive: true, force: true });
+    await rm(spoolPath, { force: true });
+  }
+}
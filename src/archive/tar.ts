@@ -0,0 +1,312 @@
+import { Buffer } from "node:buffer";
+import { createReadStream } from "node:fs";
+import { readlink } from "node:fs/promises";
+import type { WalkEntry } from "../filesystem/walk.ts";
+import { ByteReader } from "./byte-reader.ts";
+import type { ArchiveEntry, ArchiveEntryType } from "./types.ts";
+
+const BLOCK_SIZE = 512;
+const NAME_LENGTH = 100;
+// 11 octal digits
+const MAX_OCTAL_SIZE = 0o77777777777;
+
+type TarEntryType = "file" | "directory" | "symlink";
+
+const TYPE_FLAGS: Record<TarEntryType | "pax", string> = {
+  file: "0",
+  symlink: "2",
+  directory: "5",
+  pax: "x",
+};
+
+interface TarHeader {
+  path: string;
+  type: TarEntryType | "pax";
+  mode: number;
+  size: number;
+  mtime: Date;
+  linkTarget?: string;
+}
+
+function writeString(block: Buffer, value: string, offset: number, length: number): void {
+  block.write(value, offset, length, "utf-8");
+}
+
+function writeOctal(block: Buffer, value: number, offset: number, length: number): void {
+  block.write(`${value.toString(8).padStart(length - 1, "0")}\0`, offset, length, "ascii");
+}
+
+function encodeHeader(header: TarHeader): Buffer {
+  const block = Buffer.alloc(BLOCK_SIZE);
+
+  writeString(block, header.path, 0, NAME_LENGTH);
+  writeOctal(block, header.mode & 0o7777, 100, 8);
+  writeOctal(block, 0, 108, 8);
+  writeOctal(block, 0, 116, 8);
+  writeOctal(block, header.size, 124, 12);
+  writeOctal(block, Math.floor(header.mtime.getTime() / 1000), 136, 12);
+  // Checksum is calculated with its own field filled with spaces
+  block.fill(" ", 148, 156);
+  writeString(block, TYPE_FLAGS[header.type], 156, 1);
+  writeString(block, header.linkTarget ?? "", 157, NAME_LENGTH);
+  writeString(block, "ustar\u000000", 257, 8);
+
+  let checksum = 0;
+  for (const byte of block) {
+    checksum += byte;
+  }
+  block.write(`${checksum.toString(8).padStart(6, "0")}\0 `, 148, 8, "ascii");
+
+  return block;
+}
+
+function padding(size: number): Buffer {
+  const remainder = size % BLOCK_SIZE;
+  return Buffer.alloc(remainder === 0 ? 0 : BLOCK_SIZE - remainder);
+}
+
+/**
+ * PAX extended header records, used for paths and link targets that do not
+ * fit into the 100 byte ustar fields.
+ */
+function encodePaxRecords(records: Record<string, string>): Buffer {
+  let content = "";
+  for (const [key, value] of Object.entries(records)) {
+    const body = ` ${key}=${value}\n`;
+    // The length prefix counts itself, so grow it until it is stable
+    let length = Buffer.byteLength(body);
+    while (Buffer.byteLength(`${length}${body}`) !== length) {
+      length = Buffer.byteLength(`${length}${body}`);
+    }
+    content += `${length}${body}`;
+  }
+  return Buffer.from(content, "utf-8");
+}
+
+function* encodeEntryHeader(header: TarHeader): Generator<Buffer> {
+  const records: Record<string, string> = {};
+  if (Buffer.byteLength(header.path) > NAME_LENGTH) {
+    records.path = header.path;
+  }
+  if (header.linkTarget && Buffer.byteLength(header.linkTarget) > NAME_LENGTH) {
+    records.linkpath = header.linkTarget;
+  }
+
+  if (Object.keys(records).length > 0) {
+    const pax = encodePaxRecords(records);
+    yield encodeHeader({
+      path: `PaxHeader/${header.path.slice(-80)}`,
+      type: "pax",
+      mode: 0o644,
+      size: pax.byteLength,
+      mtime: header.mtime,
+    });
+    yield pax;
+    yield padding(pax.byteLength);
+  }
+
+  yield encodeHeader(header);
+}
+
+/**
+ * Streams exactly size bytes of a file followed by block padding.
+ */
+async function* encodeFileContent(fullPath: string, size: number): AsyncGenerator<Buffer> {
+  let written = 0;
+  if (size > 0) {
+    for await (const chunk of createReadStream(fullPath, { end: size - 1 })) {
+      written += chunk.byteLength;
+      yield chunk;
+    }
+  }
+  // The header already promised size bytes, pad if the file shrank meanwhile
+  if (written < size) {
+    yield Buffer.alloc(size - written);
+  }
+  yield padding(size);
+}
+
+/**
+ * Streams a tar archive of the given workspace entries.
+ */
+export async function* createTarStream(entries: AsyncIterable<WalkEntry>): AsyncGenerator<Buffer> {
+  for await (const { path, fullPath, stats } of entries) {
+    const base = { mode: stats.mode, mtime: stats.mtime };
+
+    if (stats.isDirectory()) {
+      yield* encodeEntryHeader({ ...base, path: `${path}/`, type: "directory", size: 0 });
+    } else if (stats.isSymbolicLink()) {
+      const linkTarget = await readlink(fullPath);
+      yield* encodeEntryHeader({ ...base, path, type: "symlink", size: 0, linkTarget });
+    } else if (stats.isFile()) {
+      if (stats.size > MAX_OCTAL_SIZE) {
+        throw new Error(`File is too large for a tar archive: ${path}`);
+      }
+      yield* encodeEntryHeader({ ...base, path, type: "file", size: stats.size });
+      yield* encodeFileContent(fullPath, stats.size);
+    }
+  }
+
+  // End of archive marker
+  yield Buffer.alloc(BLOCK_SIZE * 2);
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString("utf-8");
+}
+
+function readOctal(block: Buffer, offset: number, length: number): number {
+  // GNU base-256 encoding for values that do not fit into octal digits
+  if (block[offset] & 0x80) {
+    let value = block[offset] & 0x7f;
+    for (let index = offset + 1; index < offset + length; index++) {
+      value = value * 256 + block[index];
+    }
+    return value;
+  }
+  const digits = readString(block, offset, length).trim();
+  return digits ? Number.parseInt(digits, 8) : 0;
+}
+
+function isChecksumValid(block: Buffer): boolean {
+  let checksum = 0;
+  for (let index = 0; index < BLOCK_SIZE; index++) {
+    checksum += index >= 148 && index < 156 ? 0x20 : block[index];
+  }
+  return checksum === readOctal(block, 148, 8);
+}
+
+function parsePaxRecords(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.byteLength) {
+    const space = data.indexOf(0x20, offset);
+    const length = Number.parseInt(data.subarray(offset, space).toString("ascii"), 10);
+    if (space === -1 || !(length > 0)) {
+      break;
+    }
+    const record = data.subarray(space + 1, offset + length - 1).toString("utf-8");
+    const separator = record.indexOf("=");
+    records[record.slice(0, separator)] = record.slice(separator + 1);
+    offset += length;
+  }
+  return records;
+}
+
+const ENTRY_TYPES: Record<string, ArchiveEntryType> = {
+  "0": "file",
+  "\0": "file",
+  "7": "file",
+  "1": "hardlink",
+  "2": "symlink",
+  "5": "directory",
+};
+
+interface PendingNames {
+  path?: string;
+  linkTarget?: string;
+  size?: number;
+}
+
+/**
+ * Reads the metadata entries (PAX and GNU long names) that describe the next entry.
+ * Returns false when the block was not a metadata entry.
+ */
+async function readMetadataEntry(
+  reader: ByteReader,
+  typeFlag: string,
+  size: number,
+  pending: PendingNames,
+): Promise<boolean> {
+  switch (typeFlag) {
+    case "x": {
+      const records = parsePaxRecords(await reader.readExactly(size));
+      pending.path = records.path ?? pending.path;
+      pending.linkTarget = records.linkpath ?? pending.linkTarget;
+      pending.size = records.size === undefined ? pending.size : Number(records.size);
+      break;
+    }
+    case "L":
+      pending.path = readString(await reader.readExactly(size), 0, size);
+      break;
+    case "K":
+      pending.linkTarget = readString(await reader.readExactly(size), 0, size);
+      break;
+    case "g":
+      await reader.skip(size);
+      break;
+    default:
+      return false;
+  }
+  await reader.skip(padding(size).byteLength);
+  return true;
+}
+
+/**
+ * Describes the entry of a ustar header block, or returns null for entry types
+ * that are not extracted (devices, fifos).
+ */
+function parseEntryHeader(
+  block: Buffer,
+  pending: PendingNames,
+): Omit<ArchiveEntry, "content"> | null {
+  const type = ENTRY_TYPES[String.fromCharCode(block[156])];
+  if (!type) {
+    return null;
+  }
+  const prefix = readString(block, 345, 155);
+  const name = readString(block, 0, NAME_LENGTH);
+  const hasLink = type === "symlink" || type === "hardlink";
+
+  return {
+    path: pending.path ?? (prefix ? `${prefix}/${name}` : name),
+    type,
+    mode: readOctal(block, 100, 8),
+    mtime: new Date(readOctal(block, 136, 12) * 1000),
+    size: type === "file" ? (pending.size ?? readOctal(block, 124, 12)) : 0,
+    linkTarget: hasLink ? (pending.linkTarget ?? readString(block, 157, NAME_LENGTH)) : undefined,
+  };
+}
+
+/**
+ * Parses a tar stream entry by entry. Each entry's content has to be consumed
+ * (or abandoned) before the next entry is read; unread content is skipped.
+ */
+export async function* readTarEntries(
+  chunks: AsyncIterable<Uint8Array>,
+): AsyncGenerator<ArchiveEntry> {
+  const reader = new ByteReader(chunks);
+  let pending: PendingNames = {};
+
+  while (true) {
+    const block = await reader.read(BLOCK_SIZE);
+    // Two zero blocks end the archive, some writers omit them entirely
+    if (!block || block.every((byte) => byte === 0)) {
+      return;
+    }
+    if (!isChecksumValid(block)) {
+      throw new Error("Invalid tar header checksum");
+    }
+
+    const typeFlag = String.fromCharCode(block[156]);
+    const size = readOctal(block, 124, 12);
+    if (await readMetadataEntry(reader, typeFlag, size, pending)) {
+      continue;
+    }
+
+    const dataSize = pending.size ?? size;
+    const entry = parseEntryHeader(block, pending);
+    pending = {};
+
+    const content = reader.stream(dataSize);
+    if (entry) {
+      yield { ...entry, content };
+    }
+    await content.return(undefined);
+    // Content of entries that were not consumed, plus block padding
+    await reader.discardStream();
+    await reader.skip(padding(dataSize).byteLength);
+  }
+}
@@ -0,0 +1,14 @@
+export type ArchiveEntryType = "file" | "directory" | "symlink" | "hardlink";
+
+export interface ArchiveEntry {
+  /** Path inside the archive, as stored (not yet validated) */
+  path: string;
+  type: ArchiveEntryType;
+  mode: number;
+  mtime: Date;
+  size: number;
+  /** Target of symlinks and hardlinks */
+  linkTarget?: string;
+  /** File data, must be fully consumed before reading the next entry */
+  content: AsyncIterable<Buffer>;
+}
@@ -0,0 +1,352 @@
+import { Buffer } from "node:buffer";
+import { createReadStream } from "node:fs";
+import { type FileHandle, open, readlink } from "node:fs/promises";
+import { crc32, createDeflateRaw, createInflateRaw } from "node:zlib";
+import type { WalkEntry } from "../filesystem/walk.ts";
+import type { ArchiveEntry } from "./types.ts";
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const VERSION = 20;
+// Upper byte 3 marks unix attributes in the external attributes field
+const VERSION_MADE_BY_UNIX = (3 << 8) | VERSION;
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const MAX_ZIP32 = 0xffffffff;
+// End of central directory record plus the longest possible comment
+const MAX_END_OF_CENTRAL_DIRECTORY_SIZE = 22 + 0xffff;
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+interface CentralDirectoryRecord {
+  name: Buffer;
+  flags: number;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  mode: number;
+  offset: number;
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function localFileHeader(record: CentralDirectoryRecord): Buffer {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(VERSION, 4);
+  header.writeUInt16LE(record.flags, 6);
+  header.writeUInt16LE(record.method, 8);
+  header.writeUInt16LE(record.time, 10);
+  header.writeUInt16LE(record.date, 12);
+  // With a data descriptor, crc and sizes follow the data instead
+  const deferred = (record.flags & FLAG_DATA_DESCRIPTOR) !== 0;
+  header.writeUInt32LE(deferred ? 0 : record.crc, 14);
+  header.writeUInt32LE(deferred ? 0 : record.compressedSize, 18);
+  header.writeUInt32LE(deferred ? 0 : record.size, 22);
+  header.writeUInt16LE(record.name.byteLength, 26);
+  header.writeUInt16LE(0, 28);
+  return Buffer.concat([header, record.name]);
+}
+
+function dataDescriptor(record: CentralDirectoryRecord): Buffer {
+  const descriptor = Buffer.alloc(16);
+  descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+  descriptor.writeUInt32LE(record.crc, 4);
+  descriptor.writeUInt32LE(record.compressedSize, 8);
+  descriptor.writeUInt32LE(record.size, 12);
+  return descriptor;
+}
+
+function centralDirectoryHeader(record: CentralDirectoryRecord): Buffer {
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+  header.writeUInt16LE(VERSION_MADE_BY_UNIX, 4);
+  header.writeUInt16LE(VERSION, 6);
+  header.writeUInt16LE(record.flags, 8);
+  header.writeUInt16LE(record.method, 10);
+  header.writeUInt16LE(record.time, 12);
+  header.writeUInt16LE(record.date, 14);
+  header.writeUInt32LE(record.crc, 16);
+  header.writeUInt32LE(record.compressedSize, 20);
+  header.writeUInt32LE(record.size, 24);
+  header.writeUInt16LE(record.name.byteLength, 28);
+  // Extra field, comment, disk number and internal attributes stay zero
+  header.writeUInt32LE(((record.mode & 0xffff) << 16) >>> 0, 38);
+  header.writeUInt32LE(record.offset, 42);
+  return Buffer.concat([header, record.name]);
+}
+
+function endOfCentralDirectory(count: number, size: number, offset: number): Buffer {
+  const record = Buffer.alloc(22);
+  record.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  record.writeUInt16LE(count, 8);
+  record.writeUInt16LE(count, 10);
+  record.writeUInt32LE(size, 12);
+  record.writeUInt32LE(offset, 16);
+  return record;
+}
+
+/**
+ * Deflates a file into the archive, filling in its crc and sizes as it streams.
+ */
+async function* deflateFile(
+  record: CentralDirectoryRecord,
+  fullPath: string,
+): AsyncGenerator<Buffer> {
+  const source = createReadStream(fullPath);
+  const deflate = createDeflateRaw();
+  source.on("data", (chunk) => {
+    const data = chunk as Buffer;
+    record.crc = crc32(data, record.crc);
+    record.size += data.byteLength;
+  });
+  source.on("error", (error) => deflate.destroy(error));
+  source.pipe(deflate);
+
+  for await (const chunk of deflate) {
+    record.compressedSize += (chunk as Buffer).byteLength;
+    yield chunk as Buffer;
+  }
+}
+
+async function* encodeEntry(
+  record: CentralDirectoryRecord,
+  { fullPath, stats }: WalkEntry,
+): AsyncGenerator<Buffer> {
+  if (stats.isSymbolicLink()) {
+    const target = Buffer.from(await readlink(fullPath), "utf-8");
+    record.crc = crc32(target);
+    record.size = target.byteLength;
+    record.compressedSize = target.byteLength;
+    yield localFileHeader(record);
+    yield target;
+  } else if (stats.isDirectory()) {
+    yield localFileHeader(record);
+  } else {
+    record.flags |= FLAG_DATA_DESCRIPTOR;
+    record.method = METHOD_DEFLATE;
+    yield localFileHeader(record);
+    yield* deflateFile(record, fullPath);
+    yield dataDescriptor(record);
+  }
+}
+
+/**
+ * Streams a zip archive of the given workspace entries.
+ * File data is deflated on the fly and described by a trailing data descriptor,
+ * so files are never buffered in memory. Zip64 is not supported.
+ */
+export async function* createZipStream(entries: AsyncIterable<WalkEntry>): AsyncGenerator<Buffer> {
+  const records: CentralDirectoryRecord[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const { path, stats } = entry;
+    if (!(stats.isFile() || stats.isDirectory() || stats.isSymbolicLink())) {
+      continue;
+    }
+
+    const { time, date } = toDosDateTime(stats.mtime);
+    const record: CentralDirectoryRecord = {
+      name: Buffer.from(stats.isDirectory() ? `${path}/` : path, "utf-8"),
+      flags: FLAG_UTF8,
+      method: METHOD_STORE,
+      time,
+      date,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      mode: stats.mode,
+      offset,
+    };
+
+    for await (const chunk of encodeEntry(record, entry)) {
+      offset += chunk.byteLength;
+      yield chunk;
+    }
+    if (record.size > MAX_ZIP32 || offset > MAX_ZIP32) {
+      throw new Error(`Archive is too large for zip format at ${path}`);
+    }
+    records.push(record);
+  }
+
+  if (records.length > 0xffff) {
+    throw new Error("Archive has too many entries for zip format");
+  }
+
+  const centralDirectoryOffset = offset;
+  let centralDirectorySize = 0;
+  for (const record of records) {
+    const header = centralDirectoryHeader(record);
+    centralDirectorySize += header.byteLength;
+    yield header;
+  }
+
+  yield endOfCentralDirectory(records.length, centralDirectorySize, centralDirectoryOffset);
+}
+
+function fromDosDateTime(time: number, date: number): Date {
+  return new Date(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2,
+  );
+}
+
+async function readAt(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  if (bytesRead < length) {
+    throw new Error("Unexpected end of zip archive");
+  }
+  return buffer;
+}
+
+async function readCentralDirectory(handle: FileHandle, fileSize: number): Promise<Buffer> {
+  const tailLength = Math.min(fileSize, MAX_END_OF_CENTRAL_DIRECTORY_SIZE);
+  const tail = await readAt(handle, fileSize - tailLength, tailLength);
+
+  for (let offset = tail.byteLength - 22; offset >= 0; offset--) {
+    if (tail.readUInt32LE(offset) !== END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      continue;
+    }
+    const size = tail.readUInt32LE(offset + 12);
+    const directoryOffset = tail.readUInt32LE(offset + 16);
+    if (size === MAX_ZIP32 || directoryOffset === MAX_ZIP32) {
+      throw new Error("Zip64 archives are not supported");
+    }
+    return readAt(handle, directoryOffset, size);
+  }
+  throw new Error("Not a zip archive: end of central directory not found");
+}
+
+function parseCentralDirectory(directory: Buffer): CentralDirectoryRecord[] {
+  const records: CentralDirectoryRecord[] = [];
+  let offset = 0;
+
+  while (offset + 46 <= directory.byteLength) {
+    if (directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error("Corrupt zip central directory");
+    }
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    // Only archives made on unix carry a file mode in the external attributes
+    const isUnix = directory.readUInt8(offset + 5) === 3;
+
+    records.push({
+      name: directory.subarray(offset + 46, offset + 46 + nameLength),
+      flags: directory.readUInt16LE(offset + 8),
+      method: directory.readUInt16LE(offset + 10),
+      time: directory.readUInt16LE(offset + 12),
+      date: directory.readUInt16LE(offset + 14),
+      crc: directory.readUInt32LE(offset + 16),
+      compressedSize: directory.readUInt32LE(offset + 20),
+      size: directory.readUInt32LE(offset + 24),
+      mode: isUnix ? directory.readUInt32LE(offset + 38) >>> 16 : 0,
+      offset: directory.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return records;
+}
+
+/**
+ * Streams an entry's data, inflating it if needed and verifying its crc and size.
+ */
+async function* readEntryData(
+  path: string,
+  handle: FileHandle,
+  record: CentralDirectoryRecord,
+): AsyncGenerator<Buffer> {
+  if (record.method !== METHOD_STORE && record.method !== METHOD_DEFLATE) {
+    throw new Error(`Unsupported zip compression method ${record.method}`);
+  }
+  const localHeader = await readAt(handle, record.offset, 30);
+  if (localHeader.readUInt32LE(0) !== LOCAL_FILE_HEADER_SIGNATURE) {
+    throw new Error("Corrupt zip local file header");
+  }
+  const start = record.offset + 30 + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+
+  let crc = 0;
+  let size = 0;
+  if (record.compressedSize > 0) {
+    const source = createReadStream(path, { start, end: start + record.compressedSize - 1 });
+    const data = record.method === METHOD_DEFLATE ? source.pipe(createInflateRaw()) : source;
+    source.on("error", (error) => data.destroy(error));
+
+    for await (const chunk of data) {
+      crc = crc32(chunk as Buffer, crc);
+      size += (chunk as Buffer).byteLength;
+      yield chunk as Buffer;
+    }
+  }
+  if (crc !== record.crc || size !== record.size) {
+    throw new Error(`Zip entry ${record.name.toString("utf-8")} is corrupt`);
+  }
+}
+
+async function readContent(content: AsyncIterable<Buffer>): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of content) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+async function toArchiveEntry(
+  path: string,
+  handle: FileHandle,
+  record: CentralDirectoryRecord,
+): Promise<ArchiveEntry> {
+  const name = record.name.toString("utf-8");
+  const isDirectory = name.endsWith("/");
+  const isSymlink = (record.mode & S_IFMT) === S_IFLNK;
+  const permissions = record.mode & 0o7777;
+  const content = readEntryData(path, handle, record);
+
+  return {
+    path: isDirectory ? name.slice(0, -1) : name,
+    type: isDirectory ? "directory" : isSymlink ? "symlink" : "file",
+    mode: permissions || (isDirectory ? 0o755 : 0o644),
+    mtime: fromDosDateTime(record.time, record.date),
+    size: isDirectory || isSymlink ? 0 : record.size,
+    // Symlink targets are stored as the entry's content
+    linkTarget: isSymlink ? await readContent(content) : undefined,
+    content,
+  };
+}
+
+/**
+ * Reads the entries of a zip archive on disk using its central directory.
+ * Zip64 is not supported.
+ */
+export async function* readZipEntries(path: string): AsyncGenerator<ArchiveEntry> {
+  const handle = await open(path, "r");
+  try {
+    const { size } = await handle.stat();
+    const records = parseCentralDirectory(await readCentralDirectory(handle, size));
+    for (const record of records) {
+      yield await toArchiveEntry(path, handle, record);
+    }
+  } finally {
+    await handle.close();
+  }
+}
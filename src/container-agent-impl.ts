@@ -2,7 +2,9 @@ import { type ChildProcess, spawn } from "node:child_process";
 import { promises as fs, type FSWatcher as NodeFileSystemWatcher } from "node:fs";
 import { join } from "node:path";
 import process from "node:process";
-import type { ContainerProcess } from "../protocol/src/index.ts";
+import type { ContainerProcess, ReadTreeOperation } from "../protocol/src/index.ts";
+import { readTree, writeTree } from "./filesystem/tree.ts";
+import { WorkspaceSandbox } from "./sandbox/sandbox.ts";
 import type {
   BufferEncoding,
   Container,
@@ -30,42 +32,50 @@ export class ContainerAgentImpl implements Container {
   public readonly workdir: string;
   public readonly fs: FileSystem;
   private readonly config: ContainerConfig;
+  private readonly sandbox: WorkspaceSandbox;
 
   constructor(config: ContainerConfig) {
     this.config = config;
     this.workdir = config.workdirName;
+    this.sandbox = new WorkspaceSandbox(config.workdirName, {
+      readOnly: config.readOnlyPaths,
+      hidden: config.hiddenPaths,
+    });
     // Ensure workspace directory exists
     fs.mkdir(this.workdir, { recursive: true }).catch(() => {
       // Ignore directory creation errors
     });
 
     this.fs = {
-      readFile: (path: string, options?: { encoding?: BufferEncoding }) => {
-        const fullPath = join(this.workdir, path);
-        return fs.readFile(fullPath, options);
+      readFile: async (path: string, options?: { encoding?: BufferEncoding }) => {
+        const fullPath = this.sandbox.resolve(path);
+        return await fs.readFile(fullPath, options);
       },
       writeFile: async (path: string, content: string, options?: { encoding?: BufferEncoding }) => {
-        const fullPath = join(this.workdir, path);
+        const fullPath = this.sandbox.resolve(path, "write");
         await fs.writeFile(fullPath, content, options);
       },
       rm: async (path: string, options?: { recursive?: boolean }) => {
-        const fullPath = join(this.workdir, path);
+        const fullPath = this.sandbox.resolve(path, "write", { followSymlinks: false });
+        await this.sandbox.assertTreeWritable(fullPath);
         await fs.rm(fullPath, options);
       },
-      readdir: (path: string) => {
-        const fullPath = join(this.workdir, path);
-        return fs.readdir(fullPath);
+      readdir: async (path: string) => {
+        const fullPath = this.sandbox.resolve(path);
+        const isHidden = this.sandbox.hiddenBelow(fullPath);
+        return (await fs.readdir(fullPath)).filter((name) => !isHidden(name));
       },
       mkdir: async (path: string, options?: { recursive?: boolean }) => {
-        const fullPath = join(this.workdir, path);
+        const fullPath = this.sandbox.resolve(path, "write");
         await fs.mkdir(fullPath, options);
       },
-      stat: (path: string) => {
-        const fullPath = join(this.workdir, path);
-        return fs.stat(fullPath);
+      stat: async (path: string) => {
+        const fullPath = this.sandbox.resolve(path);
+        return await fs.stat(fullPath);
       },
       watch: (pattern: string, options?: { persistent?: boolean }) => {
-        const fullPath = join(this.workdir, pattern);
+        this.sandbox.assertPattern(pattern);
+        const fullPath = this.sandbox.resolve(pattern);
         // Ensure directory exists before watching
         fs.mkdir(join(fullPath, ".."), { recursive: true }).catch(() => {
           // Ignore directory creation errors
@@ -118,21 +128,20 @@ export class ContainerAgentImpl implements Container {
     }
   }
 
+  /**
+   * Writes a tree into the workspace, including file modes, binary contents and symlinks.
+   */
   async mount(data: FileSystemTree): Promise<void> {
-    const writeFiles = async (tree: FileSystemTree, basePath = "") => {
-      for (const [name, node] of Object.entries(tree)) {
-        const path = join(basePath, name);
-
-        if ("file" in node) {
-          await this.fs.writeFile(path, node.file.contents);
-        } else if ("directory" in node) {
-          await this.fs.mkdir(path, { recursive: true });
-          await writeFiles(node.directory, path);
-        }
-      }
-    };
+    await writeTree(this.sandbox, "", data);
+  }
 
-    await writeFiles(data);
+  /**
+   * Reads a workspace directory into the tree shape mount accepts.
+   */
+  async readTree(path = "", options: ReadTreeOperation["options"] = {}): Promise<FileSystemTree> {
+    const root = this.sandbox.resolve(path);
+    const { tree } = await readTree(root, { ...options, ignore: this.sandbox.hiddenBelow(root) });
+    return tree;
   }
 
   async spawn(
@@ -141,7 +150,7 @@ export class ContainerAgentImpl implements Container {
     options: { env?: Record<string, string> } = {},
   ): Promise<ContainerProcess> {
     const childProcess = spawn(command, args, {
-      cwd: this.workdir,
+      cwd: this.sandbox.resolve(""),
       stdio: ["pipe", "pipe", "pipe"],
       env: { ...process.env, ...options.env, coep: this.config.coep },
     });
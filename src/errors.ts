@@ -0,0 +1,20 @@
+/**
+ * An error with a machine readable code. Operation handlers report the code to
+ * the client instead of their generic failure code.
+ */
+export class OperationError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = "OperationError";
+    this.code = code;
+  }
+}
+
+/**
+ * The code to report for an error caught by an operation handler.
+ */
+export function errorCode(error: unknown, fallback: string): string {
+  return error instanceof OperationError ? error.code : fallback;
+}
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { chmod, mkdir, mkdtemp, readFile, readdir, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type BatchPathResolver, FileSystemTransaction, runBatch } from "./batch.ts";
+
+describe("runBatch", () => {
+  let dir: string;
+  let workdir: string;
+  let stagingRoot: string;
+  let resolvePath: BatchPathResolver;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "batch-test-"));
+    workdir = join(dir, "workspace");
+    stagingRoot = join(dir, "transactions");
+    resolvePath = (path) => join(workdir, path);
+    await mkdir(join(workdir, "src"), { recursive: true });
+    await writeFile(join(workdir, "src/a.txt"), "a");
+    await writeFile(join(workdir, "src/b.txt"), "b");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should apply all operations in order", async () => {
+    const batch = await runBatch(
+      [
+        { type: "writeFile", path: "src/a.txt", content: "changed" },
+        { type: "mkdir", path: "lib/nested", options: { recursive: true } },
+        { type: "move", path: "src/b.txt", newPath: "lib/nested/b.txt" },
+        { type: "copy", path: "src/a.txt", newPath: "lib/a.txt" },
+      ],
+      resolvePath,
+      stagingRoot,
+    );
+
+    expect(batch.rolledBack).toBe(false);
+    expect(batch.results.map((result) => result.status)).toEqual([
+      "applied",
+      "applied",
+      "applied",
+      "applied",
+    ]);
+    expect(await readFile(join(workdir, "lib/a.txt"), "utf-8")).toBe("changed");
+    expect(await readFile(join(workdir, "lib/nested/b.txt"), "utf-8")).toBe("b");
+    expect(await readdir(stagingRoot)).toEqual([]);
+  });
+
+  it("should roll back every applied operation when one fails", async () => {
+    const batch = await runBatch(
+      [
+        { type: "writeFile", path: "src/a.txt", content: "changed" },
+        { type: "writeFile", path: "new/c.txt", content: "c" },
+        { type: "rm", path: "src/b.txt" },
+        { type: "move", path: "src/missing.txt", newPath: "src/d.txt" },
+        { type: "rm", path: "src/a.txt" },
+      ],
+      resolvePath,
+      stagingRoot,
+    );
+
+    expect(batch.rolledBack).toBe(true);
+    expect(batch.results.map((result) => result.status)).toEqual([
+      "rolled-back",
+      "rolled-back",
+      "rolled-back",
+      "failed",
+      "skipped",
+    ]);
+    expect(await readFile(join(workdir, "src/a.txt"), "utf-8")).toBe("a");
+    expect(await readFile(join(workdir, "src/b.txt"), "utf-8")).toBe("b");
+    expect(await readdir(workdir)).toEqual(["src"]);
+    expect(await readdir(stagingRoot)).toEqual([]);
+  });
+
+  it("should keep the mode of a replaced file", async () => {
+    await chmod(join(workdir, "src/a.txt"), 0o755);
+    await runBatch(
+      [{ type: "writeFile", path: "src/a.txt", content: "#!/bin/sh" }],
+      resolvePath,
+      stagingRoot,
+    );
+
+    expect((await stat(join(workdir, "src/a.txt"))).mode & 0o777).toBe(0o755);
+  });
+});
+
+describe("FileSystemTransaction", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "transaction-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should keep its backups when a rollback fails", async () => {
+    const target = join(dir, "workspace/a.txt");
+    await mkdir(join(dir, "workspace"));
+    await writeFile(target, "original");
+    const transaction = new FileSystemTransaction(join(dir, "transactions"));
+    await transaction.writeFile(target, await transaction.stage(Buffer.from("changed")));
+
+    // The original cannot be put back once its directory became a file
+    await rm(join(dir, "workspace"), { recursive: true });
+    await writeFile(join(dir, "workspace"), "");
+    await expect(transaction.rollback()).rejects.toThrow();
+    await transaction.dispose();
+
+    const backups = await readdir(transaction.stagingDir);
+    const contents = await Promise.all(
+      backups.map((backup) => readFile(join(transaction.stagingDir, backup), "utf-8")),
+    );
+    expect(contents).toContain("original");
+  });
+});
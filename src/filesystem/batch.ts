@@ -0,0 +1,357 @@
+import { randomUUID } from "node:crypto";
+import { chmod, cp, lstat, mkdir, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type {
+  BatchOperationResult,
+  BatchResponse,
+  ConflictPolicy,
+  FileSystemOperation,
+  PathOperationResponse,
+} from "../../protocol/src/index.ts";
+import { errorCode } from "../errors.ts";
+import type { ResolveOptions, SandboxAccess } from "../sandbox/sandbox.ts";
+import { decodeFileContent } from "./content.ts";
+import { movePath } from "./operations.ts";
+
+const BATCH_OPERATION_TYPES = new Set<FileSystemOperation["type"]>([
+  "writeFile",
+  "mkdir",
+  "rm",
+  "rename",
+  "move",
+  "copy",
+]);
+
+// These act on a symlink itself rather than on what it points to
+const LINK_OPERATION_TYPES = new Set<FileSystemOperation["type"]>(["rm", "rename", "move"]);
+
+type UndoStep = () => Promise<void>;
+
+/**
+ * Turns an operation path into an absolute path, throwing when it must not be accessed.
+ */
+export type BatchPathResolver = (
+  path: string,
+  access: SandboxAccess,
+  options?: ResolveOptions,
+) => string;
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await lstat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Applies filesystem changes while recording how to revert each of them.
+ * Anything a change would destroy is moved or copied into the staging
+ * directory first, so rollback can put it back. The staging root should be on
+ * the same device as the workspace, so those moves stay renames.
+ */
+export class FileSystemTransaction {
+  readonly stagingDir: string;
+  private readonly undoSteps: UndoStep[] = [];
+  private stagedCount = 0;
+  // Once a rollback fails, the staging directory holds the only copy of what it displaced
+  private keepStaging = false;
+
+  constructor(stagingRoot: string) {
+    this.stagingDir = join(stagingRoot, randomUUID());
+  }
+
+  /**
+   * Writes content to a staging file ahead of the commit phase.
+   */
+  async stage(content: Uint8Array): Promise<string> {
+    const stagedPath = await this.nextStagingPath();
+    await writeFile(stagedPath, content);
+    return stagedPath;
+  }
+
+  async writeFile(target: string, stagedPath: string): Promise<void> {
+    const stats = await lstat(target).catch(() => null);
+    await this.trackCreatedParents(target);
+    await this.displace(target);
+    // The staged file replaces the old one, which would otherwise drop its mode
+    if (stats?.isFile()) {
+      await chmod(stagedPath, stats.mode & 0o7777);
+    }
+    await movePath(stagedPath, target);
+    this.undoSteps.push(() => rm(target, { force: true }));
+  }
+
+  async mkdir(target: string, recursive?: boolean): Promise<void> {
+    if (recursive) {
+      await this.trackCreatedParents(join(target, "_"));
+    } else if (!(await exists(target))) {
+      this.undoSteps.push(() => rm(target, { recursive: true, force: true }));
+    }
+    await mkdir(target, { recursive });
+  }
+
+  async rm(target: string, options: { recursive?: boolean; force?: boolean } = {}): Promise<void> {
+    if (!(await exists(target))) {
+      if (options.force) {
+        return;
+      }
+      throw new Error(`No such file or directory: ${target}`);
+    }
+    if ((await lstat(target)).isDirectory() && !options.recursive) {
+      throw new Error(`Cannot remove directory without recursive option: ${target}`);
+    }
+    await this.displace(target);
+  }
+
+  async move(
+    source: string,
+    destination: string,
+    conflict: ConflictPolicy = "error",
+  ): Promise<PathOperationResponse> {
+    await lstat(source);
+    if (await exists(destination)) {
+      if (conflict === "skip") {
+        return { skipped: true };
+      }
+      if (conflict !== "overwrite") {
+        throw new Error(`Destination already exists: ${destination}`);
+      }
+    }
+
+    await this.trackCreatedParents(destination);
+    await this.displace(destination);
+    await movePath(source, destination);
+    this.undoSteps.push(async () => {
+      await movePath(destination, source);
+    });
+    return { skipped: false };
+  }
+
+  async copy(
+    source: string,
+    destination: string,
+    options: { recursive?: boolean; conflict?: ConflictPolicy } = {},
+  ): Promise<PathOperationResponse> {
+    const conflict = options.conflict ?? "error";
+    const sourceStats = await lstat(source);
+    if (sourceStats.isDirectory() && !options.recursive) {
+      throw new Error(`Cannot copy directory without recursive option: ${source}`);
+    }
+
+    if (await exists(destination)) {
+      if (conflict === "error") {
+        throw new Error(`Destination already exists: ${destination}`);
+      }
+      if (conflict === "skip" && !sourceStats.isDirectory()) {
+        return { skipped: true };
+      }
+      // Directory copies merge into the destination, so keep a copy to restore from
+      await this.preserve(destination);
+    } else {
+      await this.trackCreatedParents(destination);
+      this.undoSteps.push(() => rm(destination, { recursive: true, force: true }));
+    }
+
+    await cp(source, destination, {
+      recursive: options.recursive ?? false,
+      force: conflict === "overwrite",
+      preserveTimestamps: true,
+      verbatimSymlinks: true,
+    });
+    return { skipped: false };
+  }
+
+  /**
+   * Reverts every applied change, newest first. When a step fails, the
+   * remaining ones are not attempted and the staging directory is kept.
+   */
+  async rollback(): Promise<void> {
+    while (this.undoSteps.length > 0) {
+      const undo = this.undoSteps.pop();
+      try {
+        await undo?.();
+      } catch (error) {
+        this.keepStaging = true;
+        throw error;
+      }
+    }
+  }
+
+  async dispose(): Promise<void> {
+    this.undoSteps.length = 0;
+    if (!this.keepStaging) {
+      await rm(this.stagingDir, { recursive: true, force: true });
+    }
+  }
+
+  private async nextStagingPath(): Promise<string> {
+    await mkdir(this.stagingDir, { recursive: true });
+    return join(this.stagingDir, String(this.stagedCount++));
+  }
+
+  /**
+   * Moves an existing path out of the way and schedules putting it back.
+   */
+  private async displace(path: string): Promise<void> {
+    if (!(await exists(path))) {
+      return;
+    }
+    const backupPath = await this.nextStagingPath();
+    await movePath(path, backupPath);
+    this.undoSteps.push(async () => {
+      await rm(path, { recursive: true, force: true });
+      await movePath(backupPath, path);
+    });
+  }
+
+  /**
+   * Copies an existing path and schedules replacing it with the copy.
+   */
+  private async preserve(path: string): Promise<void> {
+    const backupPath = await this.nextStagingPath();
+    await cp(path, backupPath, {
+      recursive: true,
+      preserveTimestamps: true,
+      verbatimSymlinks: true,
+    });
+    this.undoSteps.push(async () => {
+      await rm(path, { recursive: true, force: true });
+      await movePath(backupPath, path);
+    });
+  }
+
+  /**
+   * Schedules removal of the parent directories that writing to path will create.
+   */
+  private async trackCreatedParents(path: string): Promise<void> {
+    let missing: string | undefined;
+    for (let parent = dirname(path); !(await exists(parent)); parent = dirname(parent)) {
+      missing = parent;
+    }
+    if (missing) {
+      const createdRoot = missing;
+      this.undoSteps.push(() => rm(createdRoot, { recursive: true, force: true }));
+    }
+  }
+}
+
+/**
+ * Applies an ordered list of filesystem operations all-or-nothing.
+ * Content is decoded and staged before anything in the workspace is touched,
+ * and the first failing operation rolls back everything applied before it.
+ */
+export async function runBatch(
+  operations: FileSystemOperation[],
+  resolvePath: BatchPathResolver,
+  stagingRoot: string,
+): Promise<BatchResponse> {
+  const transaction = new FileSystemTransaction(stagingRoot);
+  const results: BatchOperationResult[] = operations.map((operation, index) => ({
+    index,
+    type: operation.type,
+    path: operation.path,
+    status: "skipped",
+  }));
+  const staged = new Map<number, string>();
+
+  let index = 0;
+  try {
+    for (; index < operations.length; index++) {
+      staged.set(index, await stageOperation(transaction, operations[index]));
+    }
+    for (index = 0; index < operations.length; index++) {
+      const data = await applyOperation(
+        transaction,
+        operations[index],
+        resolvePath,
+        staged.get(index),
+      );
+      results[index].status = "applied";
+      results[index].data = data;
+    }
+    return { results, rolledBack: false };
+  } catch (error) {
+    const rolledBack = await transaction.rollback().then(
+      () => true,
+      (rollbackError) => {
+        console.error(
+          `Batch rollback failed, backups are kept in ${transaction.stagingDir}:`,
+          rollbackError,
+        );
+        return false;
+      },
+    );
+
+    for (const result of results) {
+      if (rolledBack && result.status === "applied") {
+        result.status = "rolled-back";
+      }
+    }
+    results[index].status = "failed";
+    results[index].error = {
+      code: errorCode(error, "FILESYSTEM_OPERATION_FAILED"),
+      message: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+
+    return { results, rolledBack };
+  } finally {
+    await transaction.dispose();
+  }
+}
+
+/**
+ * Validates an operation and stages its content, returning the staged file for writes.
+ */
+function stageOperation(
+  transaction: FileSystemTransaction,
+  operation: FileSystemOperation,
+): Promise<string> {
+  if (!BATCH_OPERATION_TYPES.has(operation.type)) {
+    throw new Error(`Unsupported batch operation: ${operation.type}`);
+  }
+  if (operation.type !== "writeFile") {
+    return Promise.resolve("");
+  }
+  if (operation.content === undefined) {
+    throw new Error("Content is required for write operation");
+  }
+  return transaction.stage(decodeFileContent(operation.content, operation.options?.encoding));
+}
+
+async function applyOperation(
+  transaction: FileSystemTransaction,
+  operation: FileSystemOperation,
+  resolvePath: BatchPathResolver,
+  stagedPath = "",
+): Promise<PathOperationResponse | null> {
+  const fullPath = resolvePath(operation.path || "", operation.type === "copy" ? "read" : "write", {
+    followSymlinks: !LINK_OPERATION_TYPES.has(operation.type),
+  });
+  const options = operation.options ?? {};
+
+  switch (operation.type) {
+    case "writeFile": {
+      await transaction.writeFile(fullPath, stagedPath);
+      return null;
+    }
+    case "mkdir": {
+      await transaction.mkdir(fullPath, options.recursive);
+      return null;
+    }
+    case "rm": {
+      await transaction.rm(fullPath, options);
+      return null;
+    }
+    default: {
+      if (!operation.newPath) {
+        throw new Error(`New path is required for ${operation.type} operation`);
+      }
+      const newFullPath = resolvePath(operation.newPath, "write");
+      return operation.type === "copy"
+        ? transaction.copy(fullPath, newFullPath, options)
+        : transaction.move(fullPath, newFullPath, options.conflict);
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "bun:test";
+import { decodeFileContent, encodeFileContent, isBinaryContent } from "./content.ts";
+
+const BYTES = Buffer.from([0x00, 0xff, 0x10, 0x80, 0x41]);
+
+describe("file content encoding", () => {
+  it("should round-trip bytes through base64 and hex", () => {
+    for (const encoding of ["base64", "hex"] as const) {
+      const encoded = encodeFileContent(BYTES, encoding);
+      expect(typeof encoded).toBe("string");
+      expect(decodeFileContent(encoded, encoding)).toEqual(BYTES);
+    }
+  });
+
+  it("should round-trip text as utf-8 by default", () => {
+    const text = "héllo wörld ✓";
+    expect(encodeFileContent(decodeFileContent(text))).toBe(text);
+  });
+
+  it("should keep raw bytes without copying them", () => {
+    const encoded = encodeFileContent(BYTES, "raw");
+    expect(encoded).toBeInstanceOf(Uint8Array);
+    expect(decodeFileContent(encoded)).toEqual(BYTES);
+    expect((encoded as Uint8Array).buffer).toBe(BYTES.buffer);
+  });
+
+  it("should reject raw content sent as a string", () => {
+    expect(() => decodeFileContent("abc", "raw")).toThrow("binary frame");
+  });
+
+  it("should detect binary content by a NUL byte", () => {
+    expect(isBinaryContent(BYTES)).toBe(true);
+    expect(isBinaryContent(Buffer.from("plain text"))).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import { Buffer } from "node:buffer";
+import type { FileContentEncoding } from "../../protocol/src/index.ts";
+
+const DEFAULT_ENCODING = "utf-8";
+// Same heuristic as git: a NUL byte in the first 8000 bytes means binary
+const BINARY_SNIFF_LENGTH = 8000;
+
+export function isBinaryContent(content: Uint8Array): boolean {
+  return content.subarray(0, BINARY_SNIFF_LENGTH).includes(0);
+}
+
+/**
+ * Converts file content received from a client into bytes.
+ * Binary payloads are written as-is, strings are decoded with the requested encoding.
+ */
+export function decodeFileContent(
+  content: string | Uint8Array,
+  encoding: FileContentEncoding = DEFAULT_ENCODING,
+): Buffer {
+  if (typeof content !== "string") {
+    return Buffer.from(content.buffer, content.byteOffset, content.byteLength);
+  }
+
+  if (encoding === "raw") {
+    throw new Error("Raw encoding requires content to be sent as a binary frame");
+  }
+
+  return Buffer.from(content, encoding);
+}
+
+/**
+ * Converts file bytes into the representation requested by a client.
+ * 'raw' keeps the bytes so they can be sent as a binary frame payload.
+ */
+export function encodeFileContent(
+  content: Buffer,
+  encoding: FileContentEncoding = DEFAULT_ENCODING,
+): string | Uint8Array {
+  if (encoding === "raw") {
+    return new Uint8Array(content.buffer, content.byteOffset, content.byteLength);
+  }
+
+  return content.toString(encoding);
+}
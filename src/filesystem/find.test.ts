@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { findPaths } from "./find.ts";
+
+describe("findPaths", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "find-test-"));
+    await mkdir(join(dir, "src/components"), { recursive: true });
+    await mkdir(join(dir, "dist"));
+    await mkdir(join(dir, "src/dist"));
+    await mkdir(join(dir, ".git"));
+    await writeFile(join(dir, ".gitignore"), "dist\n*.log\n");
+    await writeFile(join(dir, "src/index.ts"), "export {};\n");
+    await writeFile(join(dir, "src/components/Button.tsx"), "");
+    await writeFile(join(dir, "src/debug.log"), "");
+    await writeFile(join(dir, "dist/index.js"), "");
+    await writeFile(join(dir, "src/dist/a.js"), "");
+    await writeFile(join(dir, ".git/HEAD"), "");
+    await symlink("src/index.ts", join(dir, "link.ts"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function paths(options: Parameters<typeof findPaths>[1] = {}): Promise<string[]> {
+    const { entries } = await findPaths(dir, options);
+    return entries.map((entry) => entry.path).sort();
+  }
+
+  it("should list everything except .git and gitignored paths by default", async () => {
+    expect(await paths()).toEqual([
+      ".gitignore",
+      "link.ts",
+      "src",
+      "src/components",
+      "src/components/Button.tsx",
+      "src/index.ts",
+    ]);
+  });
+
+  it("should match glob patterns against the relative path", async () => {
+    expect(await paths({ patterns: ["**/*.ts"] })).toEqual(["link.ts", "src/index.ts"]);
+    expect(await paths({ patterns: ["src/*", "*.tsx"] })).toEqual([
+      "src/components",
+      "src/components/Button.tsx",
+      "src/index.ts",
+    ]);
+  });
+
+  it("should include gitignored paths when gitignore is off", async () => {
+    expect(await paths({ gitignore: false, patterns: ["**/*.{js,log}"] })).toEqual([
+      "dist/index.js",
+      "src/debug.log",
+      "src/dist/a.js",
+    ]);
+  });
+
+  it("should apply the .gitignore files above a subdirectory", async () => {
+    const { entries } = await findPaths(join(dir, "src"), { workspaceRoot: dir });
+    expect(entries.map((entry) => entry.path).sort()).toEqual([
+      "components",
+      "components/Button.tsx",
+      "index.ts",
+    ]);
+  });
+
+  it("should apply exclude patterns and maxDepth", async () => {
+    expect(await paths({ maxDepth: 1 })).toEqual([".gitignore", "link.ts", "src"]);
+    // Exclude patterns replace the default
+    expect(await paths({ exclude: ["components"], maxDepth: 2 })).toEqual([
+      ".git",
+      ".git/HEAD",
+      ".gitignore",
+      "link.ts",
+      "src",
+      "src/index.ts",
+    ]);
+  });
+
+  it("should report symlinks without following them", async () => {
+    const { entries } = await findPaths(dir, { patterns: ["link.ts", "src/index.ts"] });
+    expect(entries.map(({ path, type }) => [path, type]).sort()).toEqual([
+      ["link.ts", "symlink"],
+      ["src/index.ts", "file"],
+    ]);
+  });
+
+  it("should stop at maxResults", async () => {
+    const response = await findPaths(dir, { maxResults: 2 });
+    expect(response.entries).toHaveLength(2);
+    expect(response.truncated).toBe(true);
+  });
+});
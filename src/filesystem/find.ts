@@ -0,0 +1,69 @@
+import type { Stats } from "node:fs";
+import { relative } from "node:path";
+import type { FindEntry, FindEntryType, FindResponse } from "../../protocol/src/index.ts";
+import { GitignoreMatcher } from "./gitignore.ts";
+import { type WalkOptions, createPathMatcher, walkWorkspace } from "./walk.ts";
+
+const DEFAULT_EXCLUDE = [".git"];
+const DEFAULT_MAX_RESULTS = 10_000;
+
+export interface FindOptions {
+  patterns?: string[];
+  maxDepth?: number;
+  exclude?: string[];
+  /** Defaults to true */
+  gitignore?: boolean;
+  maxResults?: number;
+  ignore?: WalkOptions["ignore"];
+  /** Directory whose .gitignore files apply to paths below root, defaults to root */
+  workspaceRoot?: string;
+}
+
+function entryType(stats: Stats): FindEntryType {
+  if (stats.isFile()) {
+    return "file";
+  }
+  if (stats.isDirectory()) {
+    return "directory";
+  }
+  return stats.isSymbolicLink() ? "symlink" : "other";
+}
+
+/**
+ * Lists the paths below root that match any of the patterns, or all paths when
+ * none are given. Symlinks are reported as such and never followed.
+ * Gitignore rules are evaluated from the workspace root, so the .gitignore
+ * files above root apply as well.
+ */
+export async function findPaths(root: string, options: FindOptions = {}): Promise<FindResponse> {
+  const patterns = options.patterns ?? [];
+  const isMatch = createPathMatcher(patterns);
+  const workspaceRoot = options.workspaceRoot ?? root;
+  const gitignore = options.gitignore === false ? null : new GitignoreMatcher(workspaceRoot);
+  const base = relative(workspaceRoot, root);
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+  const entries: FindEntry[] = [];
+
+  const walk = walkWorkspace(root, {
+    exclude: options.exclude ?? DEFAULT_EXCLUDE,
+    maxDepth: options.maxDepth,
+    ignore: (path, isDirectory) =>
+      Boolean(
+        options.ignore?.(path, isDirectory) ||
+          gitignore?.isIgnored(base ? `${base}/${path}` : path, isDirectory),
+      ),
+  });
+
+  for await (const { path, stats } of walk) {
+    if (patterns.length > 0 && !isMatch(path)) {
+      continue;
+    }
+    if (entries.length >= maxResults) {
+      await walk.return(undefined);
+      return { entries, truncated: true };
+    }
+    entries.push({ path, type: entryType(stats), size: stats.size, mtime: stats.mtimeMs });
+  }
+
+  return { entries, truncated: false };
+}
@@ -0,0 +1,53 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { GitignoreMatcher } from "./gitignore.ts";
+
+describe("GitignoreMatcher", () => {
+  let dir: string;
+  let matcher: GitignoreMatcher;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "gitignore-test-"));
+    await mkdir(join(dir, "packages/app"), { recursive: true });
+    await writeFile(
+      join(dir, ".gitignore"),
+      ["# comment", "node_modules", "*.log", "!keep.log", "/dist", "build/", "docs/*.md", ""].join(
+        "\n",
+      ),
+    );
+    await writeFile(join(dir, "packages/app/.gitignore"), "!debug.log\ngenerated\n");
+    matcher = new GitignoreMatcher(dir);
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should match unanchored patterns at any depth", () => {
+    expect(matcher.isIgnored("node_modules", true)).toBe(true);
+    expect(matcher.isIgnored("packages/app/node_modules", true)).toBe(true);
+    expect(matcher.isIgnored("packages/error.log", false)).toBe(true);
+  });
+
+  it("should only match anchored patterns relative to the .gitignore", () => {
+    expect(matcher.isIgnored("dist", true)).toBe(true);
+    expect(matcher.isIgnored("packages/dist", true)).toBe(false);
+    expect(matcher.isIgnored("docs/readme.md", false)).toBe(true);
+    expect(matcher.isIgnored("docs/api/readme.md", false)).toBe(false);
+  });
+
+  it("should only match directory patterns against directories", () => {
+    expect(matcher.isIgnored("build", true)).toBe(true);
+    expect(matcher.isIgnored("build", false)).toBe(false);
+  });
+
+  it("should let negations and deeper files override earlier rules", () => {
+    expect(matcher.isIgnored("keep.log", false)).toBe(false);
+    expect(matcher.isIgnored("packages/app/debug.log", false)).toBe(false);
+    expect(matcher.isIgnored("packages/debug.log", false)).toBe(true);
+    expect(matcher.isIgnored("packages/app/generated", true)).toBe(true);
+    expect(matcher.isIgnored("generated", true)).toBe(false);
+  });
+});
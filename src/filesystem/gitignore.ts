@@ -0,0 +1,96 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { Glob } from "bun";
+
+const LINE_BREAK = /\r?\n/;
+// Trailing spaces are ignored unless escaped with a backslash
+const TRAILING_UNESCAPED_SPACES = /(?<!\\)\s+$/;
+
+interface GitignoreRule {
+  glob: Glob;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+function parseRule(line: string): GitignoreRule | null {
+  let pattern = line.replace(TRAILING_UNESCAPED_SPACES, "");
+  if (!pattern || pattern.startsWith("#")) {
+    return null;
+  }
+
+  const negated = pattern.startsWith("!");
+  if (negated) {
+    pattern = pattern.slice(1);
+  }
+  const directoryOnly = pattern.endsWith("/");
+  if (directoryOnly) {
+    pattern = pattern.slice(0, -1);
+  }
+  // A slash anywhere but at the end anchors the pattern to the .gitignore's directory
+  const anchored = pattern.includes("/");
+  if (pattern.startsWith("/")) {
+    pattern = pattern.slice(1);
+  }
+  if (!pattern) {
+    return null;
+  }
+
+  return {
+    glob: new Glob(anchored ? pattern : `**/${pattern}`),
+    negated,
+    directoryOnly,
+  };
+}
+
+export function parseGitignore(content: string): GitignoreRule[] {
+  return content
+    .split(LINE_BREAK)
+    .map(parseRule)
+    .filter((rule): rule is GitignoreRule => rule !== null);
+}
+
+/**
+ * Evaluates the .gitignore files of a directory tree for workspace-relative paths.
+ * Files are read lazily per directory, rules in deeper files take precedence and
+ * within a file the last matching rule wins, like git does.
+ */
+export class GitignoreMatcher {
+  private readonly root: string;
+  private readonly rules: Map<string, GitignoreRule[]> = new Map();
+
+  constructor(root: string) {
+    this.root = root;
+  }
+
+  /**
+   * Callers are expected to skip the contents of ignored directories,
+   * as git does not look into them either.
+   */
+  isIgnored(path: string, isDirectory: boolean): boolean {
+    const segments = path.split("/");
+    let ignored = false;
+
+    for (let depth = 0; depth < segments.length; depth++) {
+      const relativePath = segments.slice(depth).join("/");
+      for (const rule of this.rulesFor(segments.slice(0, depth).join("/"))) {
+        if ((isDirectory || !rule.directoryOnly) && rule.glob.match(relativePath)) {
+          ignored = !rule.negated;
+        }
+      }
+    }
+    return ignored;
+  }
+
+  private rulesFor(directory: string): GitignoreRule[] {
+    let rules = this.rules.get(directory);
+    if (!rules) {
+      try {
+        rules = parseGitignore(readFileSync(join(this.root, directory, ".gitignore"), "utf-8"));
+      } catch {
+        rules = [];
+      }
+      this.rules.set(directory, rules);
+    }
+    return rules;
+  }
+}
@@ -0,0 +1,43 @@
+import { Glob } from "bun";
+
+const GLOB_CHARACTERS = /[*?[\]{}!]/;
+const LEADING_DOT_SLASH = /^\.\//;
+const TRAILING_SLASHES = /\/+$/;
+
+function normalizeRelative(path: string): string {
+  return path.replace(LEADING_DOT_SLASH, "").replace(TRAILING_SLASHES, "");
+}
+
+/**
+ * Leading path segments of a glob pattern that contain no glob characters,
+ * e.g. "src/lib" for "src/lib/**\/*.ts".
+ */
+function staticPrefix(pattern: string): string {
+  const segments: string[] = [];
+  for (const segment of normalizeRelative(pattern).split("/")) {
+    if (GLOB_CHARACTERS.test(segment)) {
+      break;
+    }
+    segments.push(segment);
+  }
+  return segments.join("/");
+}
+
+/**
+ * Whether a change to a workspace-relative path may affect files matched by a pattern.
+ * Directories are treated as touching every pattern that could match something inside them.
+ */
+export function globTouchesPath(pattern: string, path: string): boolean {
+  const relativePath = normalizeRelative(path);
+  if (new Glob(normalizeRelative(pattern)).match(relativePath)) {
+    return true;
+  }
+
+  const prefix = staticPrefix(pattern);
+  return (
+    prefix === "" ||
+    prefix === relativePath ||
+    prefix.startsWith(`${relativePath}/`) ||
+    relativePath.startsWith(`${prefix}/`)
+  );
+}
@@ -0,0 +1,15 @@
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+
+/**
+ * Computes the SHA-256 hex digest of a file without loading it into memory.
+ */
+export async function hashFile(path: string): Promise<string> {
+  const hash = createHash("sha256");
+
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk);
+  }
+
+  return hash.digest("hex");
+}
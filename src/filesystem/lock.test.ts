@@ -0,0 +1,99 @@
+import { describe, expect, it } from "bun:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { PathLocks, TaskQueue } from "./lock.ts";
+
+describe("PathLocks", () => {
+  it("should run tasks on the same path one after another", async () => {
+    const locks = new PathLocks();
+    const events: string[] = [];
+    const task = (name: string, delay: number) => async () => {
+      events.push(`start ${name}`);
+      await sleep(delay);
+      events.push(`end ${name}`);
+      return name;
+    };
+
+    const results = await Promise.all([
+      locks.exclusive("/a", task("first", 20)),
+      locks.exclusive("/a", task("second", 0)),
+    ]);
+
+    expect(results).toEqual(["first", "second"]);
+    expect(events).toEqual(["start first", "end first", "start second", "end second"]);
+  });
+
+  it("should run tasks on different paths concurrently", async () => {
+    const locks = new PathLocks();
+    const events: string[] = [];
+
+    await Promise.all([
+      locks.exclusive("/a", async () => {
+        events.push("start a");
+        await sleep(20);
+        events.push("end a");
+      }),
+      locks.exclusive("/b", async () => {
+        events.push("start b");
+        await sleep(0);
+        events.push("end b");
+      }),
+    ]);
+
+    expect(events).toEqual(["start a", "start b", "end b", "end a"]);
+  });
+
+  it("should wait for every path of a task", async () => {
+    const locks = new PathLocks();
+    const events: string[] = [];
+
+    await Promise.all([
+      locks.exclusive("/a", async () => {
+        await sleep(20);
+        events.push("a");
+      }),
+      locks.exclusive("/b", async () => {
+        await sleep(10);
+        events.push("b");
+      }),
+      locks.exclusive(["/b", "/a"], () => {
+        events.push("both");
+        return Promise.resolve();
+      }),
+    ]);
+
+    expect(events).toEqual(["b", "a", "both"]);
+  });
+
+  it("should keep going after a failed task and forget idle paths", async () => {
+    const locks = new PathLocks();
+
+    const failed = locks.exclusive("/a", () => Promise.reject(new Error("conflict")));
+    const next = locks.exclusive("/a", () => Promise.resolve("written"));
+
+    await expect(failed).rejects.toThrow("conflict");
+    expect(await next).toBe("written");
+    await sleep(0);
+    expect(locks.size).toBe(0);
+  });
+});
+
+describe("TaskQueue", () => {
+  it("should run tasks in order and keep going after a failed one", async () => {
+    const queue = new TaskQueue();
+    const events: string[] = [];
+
+    const first = queue.exclusive(async () => {
+      await sleep(10);
+      events.push("first");
+      throw new Error("failed");
+    });
+    const second = queue.exclusive(() => {
+      events.push("second");
+      return Promise.resolve("done");
+    });
+
+    await expect(first).rejects.toThrow("failed");
+    expect(await second).toBe("done");
+    expect(events).toEqual(["first", "second"]);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Runs tasks one after another, each once the previous one settled. A failed
+ * task does not keep the next ones from running.
+ */
+export class TaskQueue {
+  private pending: Promise<unknown> = Promise.resolve();
+
+  exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(task, task);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Runs tasks on the same path one after another, so a version check and the
+ * write that depends on it cannot interleave with another write of the path.
+ */
+export class PathLocks {
+  private readonly pending: Map<string, Promise<unknown>> = new Map();
+
+  /**
+   * Runs a task once the earlier tasks on any of its paths are done. All paths
+   * are queued at once, so tasks on overlapping paths cannot wait for each other.
+   */
+  exclusive<T>(fullPaths: string | string[], task: () => Promise<T>): Promise<T> {
+    const paths = [...new Set(typeof fullPaths === "string" ? [fullPaths] : fullPaths)];
+    const previous = Promise.all(paths.map((path) => this.pending.get(path)));
+    const result = previous.then(task, task);
+    const settled = result.catch(() => undefined);
+    for (const path of paths) {
+      this.pending.set(path, settled);
+    }
+    // Forget the paths once nothing is queued behind this task
+    settled.then(() => {
+      for (const path of paths) {
+        if (this.pending.get(path) === settled) {
+          this.pending.delete(path);
+        }
+      }
+    });
+    return result;
+  }
+
+  /** Number of paths with queued tasks */
+  get size(): number {
+    return this.pending.size;
+  }
+}
@@ -0,0 +1,62 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdtemp, readFile, readdir, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ObjectStore } from "./objects.ts";
+
+describe("ObjectStore", () => {
+  let dir: string;
+  let store: ObjectStore;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "objects-test-"));
+    await writeFile(join(dir, "a.txt"), "same");
+    await writeFile(join(dir, "b.txt"), "same");
+    await writeFile(join(dir, "c.txt"), "other");
+    store = new ObjectStore(join(dir, "objects"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function objects(): Promise<string[]> {
+    const paths = await readdir(join(dir, "objects"), { recursive: true });
+    return paths.filter((path) => path.includes("/"));
+  }
+
+  it("should store identical contents once", async () => {
+    const first = await store.add(join(dir, "a.txt"));
+    const second = await store.add(join(dir, "b.txt"));
+
+    expect(second).toBe(first);
+    expect(await objects()).toEqual([`${first.slice(0, 2)}/${first.slice(2)}`]);
+    expect(await readFile(store.path(first), "utf-8")).toBe("same");
+    expect(await store.has(first)).toBe(true);
+  });
+
+  it("should copy an object over a file with its mode and mtime", async () => {
+    const hash = await store.add(join(dir, "c.txt"));
+    const target = join(dir, "restored/c.txt");
+    await store.copyTo(hash, target, { mode: 0o600, mtime: 1_000_000 });
+    await store.copyTo(hash, target, { mode: 0o640, mtime: 2_000_000 });
+
+    const stats = await stat(target);
+    expect(await readFile(target, "utf-8")).toBe("other");
+    expect(stats.mode & 0o777).toBe(0o640);
+    expect(stats.mtimeMs).toBe(2_000_000);
+    expect(await readdir(join(dir, "restored"))).toEqual(["c.txt"]);
+  });
+
+  it("should remove single and unreferenced objects", async () => {
+    const same = await store.add(join(dir, "a.txt"));
+    const other = await store.add(join(dir, "c.txt"));
+
+    await store.retain(new Set([other]));
+    expect(await store.has(same)).toBe(false);
+    expect(await store.has(other)).toBe(true);
+
+    await store.remove(other);
+    expect(await objects()).toEqual([]);
+  });
+});
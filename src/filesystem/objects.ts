@@ -0,0 +1,89 @@
+import { randomUUID } from "node:crypto";
+import { access, chmod, copyFile, mkdir, readdir, rename, rm, utimes } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { hashFile } from "./hash.ts";
+
+/**
+ * Keeps file contents under a directory, each stored once and named by its
+ * SHA-256: the first two hex digits are the subdirectory, the rest the file name.
+ */
+export class ObjectStore {
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Adds the content of a file and returns its hash.
+   */
+  async add(fullPath: string): Promise<string> {
+    // Hash a private copy, the file may change while it is stored
+    await mkdir(this.dir, { recursive: true });
+    const tempPath = join(this.dir, `${randomUUID()}.tmp`);
+    try {
+      await copyFile(fullPath, tempPath);
+      const hash = await hashFile(tempPath);
+      await mkdir(dirname(this.path(hash)), { recursive: true });
+      await rename(tempPath, this.path(hash));
+      return hash;
+    } finally {
+      await rm(tempPath, { force: true });
+    }
+  }
+
+  /**
+   * Writes an object to a file, replacing it atomically: the object is copied
+   * next to the destination first and renamed over it.
+   */
+  async copyTo(
+    hash: string,
+    fullPath: string,
+    options: { mode?: number; mtime?: number } = {},
+  ): Promise<void> {
+    const tempPath = join(dirname(fullPath), `.${randomUUID()}.restore`);
+    await mkdir(dirname(fullPath), { recursive: true });
+    try {
+      await copyFile(this.path(hash), tempPath);
+      if (options.mode !== undefined) {
+        await chmod(tempPath, options.mode);
+      }
+      if (options.mtime !== undefined) {
+        await utimes(tempPath, options.mtime / 1000, options.mtime / 1000);
+      }
+      await rename(tempPath, fullPath);
+    } finally {
+      await rm(tempPath, { force: true });
+    }
+  }
+
+  async has(hash: string): Promise<boolean> {
+    try {
+      await access(this.path(hash));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async remove(hash: string): Promise<void> {
+    await rm(this.path(hash), { force: true });
+  }
+
+  /**
+   * Removes every object that is not in `referenced`.
+   */
+  async retain(referenced: Set<string>): Promise<void> {
+    const objects = await readdir(this.dir, { recursive: true }).catch(() => []);
+    for (const object of objects) {
+      const [prefix, rest] = object.split("/");
+      if (rest && !referenced.has(`${prefix}${rest}`)) {
+        await rm(join(this.dir, object), { force: true });
+      }
+    }
+  }
+
+  path(hash: string): string {
+    return join(this.dir, hash.slice(0, 2), hash.slice(2));
+  }
+}
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { chmod, mkdir, mkdtemp, readFile, readdir, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { copyPath, movePath, renamePath } from "./operations.ts";
+
+describe("path operations", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "operations-test-"));
+    await writeFile(join(dir, "a.txt"), "a");
+    await writeFile(join(dir, "b.txt"), "b");
+    await mkdir(join(dir, "folder/nested"), { recursive: true });
+    await writeFile(join(dir, "folder/nested/c.txt"), "c");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("renamePath", () => {
+    it("should rename a path that does not collide", async () => {
+      expect(await renamePath(join(dir, "a.txt"), join(dir, "renamed.txt"))).toEqual({
+        skipped: false,
+      });
+      expect(await readFile(join(dir, "renamed.txt"), "utf-8")).toBe("a");
+    });
+
+    it("should fail on an existing destination by default and keep both paths", async () => {
+      await expect(renamePath(join(dir, "a.txt"), join(dir, "b.txt"))).rejects.toThrow(
+        "already exists",
+      );
+      expect(await readFile(join(dir, "a.txt"), "utf-8")).toBe("a");
+      expect(await readFile(join(dir, "b.txt"), "utf-8")).toBe("b");
+    });
+
+    it("should skip or overwrite an existing destination on request", async () => {
+      expect(await renamePath(join(dir, "a.txt"), join(dir, "b.txt"), "skip")).toEqual({
+        skipped: true,
+      });
+      expect(await readFile(join(dir, "b.txt"), "utf-8")).toBe("b");
+
+      await renamePath(join(dir, "a.txt"), join(dir, "b.txt"), "overwrite");
+      expect(await readFile(join(dir, "b.txt"), "utf-8")).toBe("a");
+      expect(await readdir(dir)).not.toContain("a.txt");
+    });
+
+    it("should fail for a missing source", async () => {
+      await expect(renamePath(join(dir, "missing"), join(dir, "other"))).rejects.toThrow();
+    });
+  });
+
+  describe("movePath", () => {
+    it("should create missing parent directories", async () => {
+      await movePath(join(dir, "folder"), join(dir, "deep/down/folder"));
+      expect(await readFile(join(dir, "deep/down/folder/nested/c.txt"), "utf-8")).toBe("c");
+      expect(await readdir(dir)).not.toContain("folder");
+    });
+
+    it("should replace a directory only with the overwrite policy", async () => {
+      await expect(movePath(join(dir, "a.txt"), join(dir, "folder"))).rejects.toThrow(
+        "already exists",
+      );
+      expect(await readFile(join(dir, "folder/nested/c.txt"), "utf-8")).toBe("c");
+
+      await movePath(join(dir, "a.txt"), join(dir, "folder"), "overwrite");
+      expect(await readFile(join(dir, "folder"), "utf-8")).toBe("a");
+    });
+  });
+
+  describe("copyPath", () => {
+    it("should copy a file and keep its mode", async () => {
+      await chmod(join(dir, "a.txt"), 0o751);
+      await copyPath(join(dir, "a.txt"), join(dir, "copy/a.txt"));
+
+      expect(await readFile(join(dir, "copy/a.txt"), "utf-8")).toBe("a");
+      expect((await stat(join(dir, "copy/a.txt"))).mode & 0o777).toBe(0o751);
+      expect(await readFile(join(dir, "a.txt"), "utf-8")).toBe("a");
+    });
+
+    it("should require the recursive option for directories", async () => {
+      await expect(copyPath(join(dir, "folder"), join(dir, "copy"))).rejects.toThrow("recursive");
+
+      await copyPath(join(dir, "folder"), join(dir, "copy"), { recursive: true });
+      expect(await readFile(join(dir, "copy/nested/c.txt"), "utf-8")).toBe("c");
+    });
+
+    it("should apply the conflict policy to existing files", async () => {
+      await expect(copyPath(join(dir, "a.txt"), join(dir, "b.txt"))).rejects.toThrow();
+      expect(await copyPath(join(dir, "a.txt"), join(dir, "b.txt"), { conflict: "skip" })).toEqual({
+        skipped: true,
+      });
+      expect(await readFile(join(dir, "b.txt"), "utf-8")).toBe("b");
+
+      await copyPath(join(dir, "a.txt"), join(dir, "b.txt"), { conflict: "overwrite" });
+      expect(await readFile(join(dir, "b.txt"), "utf-8")).toBe("a");
+    });
+
+    it("should leave existing files in a directory untouched when skipping", async () => {
+      await mkdir(join(dir, "copy/nested"), { recursive: true });
+      await writeFile(join(dir, "copy/nested/c.txt"), "kept");
+      await writeFile(join(dir, "folder/d.txt"), "d");
+
+      await copyPath(join(dir, "folder"), join(dir, "copy"), { recursive: true, conflict: "skip" });
+      expect(await readFile(join(dir, "copy/nested/c.txt"), "utf-8")).toBe("kept");
+      expect(await readFile(join(dir, "copy/d.txt"), "utf-8")).toBe("d");
+    });
+  });
+});
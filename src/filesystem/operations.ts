@@ -0,0 +1,115 @@
+import { cp, lstat, mkdir, rename, rm } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { ConflictPolicy, PathOperationResponse } from "../../protocol/src/index.ts";
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await lstat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Applies the conflict policy to an existing destination.
+ * Returns false when the operation should be skipped.
+ */
+async function resolveConflict(destination: string, conflict: ConflictPolicy): Promise<boolean> {
+  if (!(await exists(destination))) {
+    return true;
+  }
+
+  if (conflict === "skip") {
+    return false;
+  }
+  if (conflict !== "overwrite") {
+    throw new Error(`Destination already exists: ${destination}`);
+  }
+
+  // Files are replaced atomically by rename, directories have to go first
+  if ((await lstat(destination)).isDirectory()) {
+    await rm(destination, { recursive: true, force: true });
+  }
+  return true;
+}
+
+/**
+ * Renames a path in place. The destination parent directory must already exist.
+ */
+export async function renamePath(
+  source: string,
+  destination: string,
+  conflict: ConflictPolicy = "error",
+): Promise<PathOperationResponse> {
+  await lstat(source);
+  if (!(await resolveConflict(destination, conflict))) {
+    return { skipped: true };
+  }
+
+  await rename(source, destination);
+  return { skipped: false };
+}
+
+/**
+ * Moves a path anywhere in the workspace, creating missing parent directories
+ * and falling back to copy + remove when crossing devices.
+ */
+export async function movePath(
+  source: string,
+  destination: string,
+  conflict: ConflictPolicy = "error",
+): Promise<PathOperationResponse> {
+  await lstat(source);
+  if (!(await resolveConflict(destination, conflict))) {
+    return { skipped: true };
+  }
+
+  await mkdir(dirname(destination), { recursive: true });
+  try {
+    await rename(source, destination);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") {
+      throw error;
+    }
+    await cp(source, destination, {
+      recursive: true,
+      preserveTimestamps: true,
+      verbatimSymlinks: true,
+    });
+    await rm(source, { recursive: true, force: true });
+  }
+
+  return { skipped: false };
+}
+
+/**
+ * Copies a file or directory, keeping file modes and timestamps.
+ * With the skip policy, files that already exist in a copied directory are left untouched.
+ */
+export async function copyPath(
+  source: string,
+  destination: string,
+  options: { recursive?: boolean; conflict?: ConflictPolicy } = {},
+): Promise<PathOperationResponse> {
+  const conflict = options.conflict ?? "error";
+  const stats = await lstat(source);
+
+  if (stats.isDirectory() && !options.recursive) {
+    throw new Error(`Cannot copy directory without recursive option: ${source}`);
+  }
+  if (!stats.isDirectory() && conflict === "skip" && (await exists(destination))) {
+    return { skipped: true };
+  }
+
+  await mkdir(dirname(destination), { recursive: true });
+  await cp(source, destination, {
+    recursive: options.recursive ?? false,
+    force: conflict === "overwrite",
+    errorOnExist: conflict === "error",
+    preserveTimestamps: true,
+    verbatimSymlinks: true,
+  });
+
+  return { skipped: false };
+}
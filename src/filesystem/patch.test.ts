@@ -0,0 +1,100 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { applyTextEdits, applyUnifiedDiff, preparePatch, readFileVersion } from "./patch.ts";
+
+const ORIGINAL = "one\ntwo\nthree\nfour\nfive\n";
+
+describe("applyUnifiedDiff", () => {
+  it("should apply hunks at their stated position", () => {
+    const patch = [
+      "--- a/file.txt",
+      "+++ b/file.txt",
+      "@@ -1,2 +1,2 @@",
+      "-one",
+      "+ONE",
+      " two",
+      "@@ -4,2 +4,3 @@",
+      " four",
+      "+four and a half",
+      " five",
+      "",
+    ].join("\n");
+
+    expect(applyUnifiedDiff(ORIGINAL, patch)).toBe(
+      "ONE\ntwo\nthree\nfour\nfour and a half\nfive\n",
+    );
+  });
+
+  it("should find hunks that were shifted and keep missing final newlines", () => {
+    const patch = [
+      "@@ -1,2 +1,2 @@",
+      " four",
+      "-five",
+      "+FIVE",
+      "\\ No newline at end of file",
+    ].join("\n");
+
+    expect(applyUnifiedDiff("zero\nfour\nfive\n", patch)).toBe("zero\nfour\nFIVE");
+  });
+
+  it("should reject hunks whose context does not match", () => {
+    const patch = ["@@ -2,1 +2,1 @@", "-deux", "+zwei"].join("\n");
+
+    expect(() => applyUnifiedDiff(ORIGINAL, patch)).toThrow("Hunk 1 does not apply");
+  });
+});
+
+describe("applyTextEdits", () => {
+  it("should apply line and offset edits against the original content", () => {
+    const result = applyTextEdits(ORIGINAL, [
+      { startLine: 2, endLine: 3, text: "2\n3\n" },
+      { offset: 0, length: 3, text: "1" },
+      { startLine: 6, endLine: 5, text: "six\n" },
+    ]);
+
+    expect(result).toBe("1\n2\n3\nfour\nfive\nsix\n");
+  });
+
+  it("should reject overlapping edits", () => {
+    expect(() =>
+      applyTextEdits(ORIGINAL, [
+        { startLine: 1, endLine: 2, text: "" },
+        { offset: 5, length: 1, text: "" },
+      ]),
+    ).toThrow("overlap");
+  });
+});
+
+describe("preparePatch", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "patch-test-"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should reject a stale expected version with a conflict", async () => {
+    const file = join(dir, "file.txt");
+    await writeFile(file, ORIGINAL);
+    const { hash } = await readFileVersion(file);
+
+    const patched = await preparePatch(file, {
+      edits: [{ startLine: 1, endLine: 1, text: "uno\n" }],
+      expectedVersion: { hash },
+    });
+    await writeFile(file, patched);
+    expect((await readFileVersion(file)).hash).not.toBe(hash);
+
+    const stale = preparePatch(file, {
+      edits: [{ startLine: 1, endLine: 1, text: "eins\n" }],
+      expectedVersion: { hash },
+    });
+    await expect(stale).rejects.toMatchObject({ code: "CONFLICT" });
+    expect(await readFile(file, "utf-8")).toBe(`uno\n${ORIGINAL.slice(4)}`);
+  });
+});
@@ -0,0 +1,239 @@
+import { createHash } from "node:crypto";
+import { readFile, stat } from "node:fs/promises";
+import type { FileVersion, TextEdit } from "../../protocol/src/index.ts";
+import { OperationError } from "../errors.ts";
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+const LINES_WITH_TERMINATORS = /[^\n]*\n|[^\n]+$/g;
+const LINE_TERMINATOR = /\r?\n$/;
+const TRAILING_CARRIAGE_RETURN = /\r$/;
+
+interface Hunk {
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+  /** Whether the hunk's last new line ends without a line break */
+  noNewlineAtEnd: boolean;
+}
+
+function splitLines(content: string): string[] {
+  return content.match(LINES_WITH_TERMINATORS) ?? [];
+}
+
+function stripTerminator(line: string): string {
+  return line.replace(LINE_TERMINATOR, "");
+}
+
+function hashContent(content: Buffer | string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+export async function readFileVersion(fullPath: string): Promise<FileVersion> {
+  const [content, stats] = await Promise.all([readFile(fullPath), stat(fullPath)]);
+  return { hash: hashContent(content), mtime: stats.mtimeMs, size: stats.size };
+}
+
+/**
+ * Throws a CONFLICT error when the file does not match the version the client last saw.
+ */
+export function assertFileVersion(
+  path: string,
+  actual: FileVersion,
+  expected?: Partial<Pick<FileVersion, "hash" | "mtime">>,
+): void {
+  if (expected?.hash !== undefined && expected.hash.toLowerCase() !== actual.hash) {
+    throw new OperationError("CONFLICT", `${path} has changed: content hash is ${actual.hash}`);
+  }
+  if (expected?.mtime !== undefined && expected.mtime !== actual.mtime) {
+    throw new OperationError("CONFLICT", `${path} has changed: mtime is ${actual.mtime}`);
+  }
+}
+
+function lineOffset(lines: string[], line: number): number {
+  if (!Number.isInteger(line) || line < 1 || line > lines.length + 1) {
+    throw new Error(`Line ${line} is out of range`);
+  }
+  let offset = 0;
+  for (let index = 0; index < line - 1; index++) {
+    offset += lines[index].length;
+  }
+  return offset;
+}
+
+function toRange(lines: string[], contentLength: number, edit: TextEdit): [number, number] {
+  if ("offset" in edit) {
+    const end = edit.offset + edit.length;
+    if (edit.offset < 0 || edit.length < 0 || end > contentLength) {
+      throw new Error(`Edit range ${edit.offset}+${edit.length} is out of range`);
+    }
+    return [edit.offset, end];
+  }
+  if (edit.endLine < edit.startLine - 1) {
+    throw new Error(`Invalid line range ${edit.startLine}-${edit.endLine}`);
+  }
+  return [lineOffset(lines, edit.startLine), lineOffset(lines, edit.endLine + 1)];
+}
+
+/**
+ * Applies edits that all refer to the original content.
+ */
+export function applyTextEdits(content: string, edits: TextEdit[]): string {
+  const lines = splitLines(content);
+  const ranges = edits
+    .map((edit) => ({ range: toRange(lines, content.length, edit), text: edit.text }))
+    .sort((a, b) => a.range[0] - b.range[0] || a.range[1] - b.range[1]);
+
+  let result = "";
+  let position = 0;
+  for (const { range, text } of ranges) {
+    if (range[0] < position) {
+      throw new Error(`Edits overlap at offset ${range[0]}`);
+    }
+    result += content.slice(position, range[0]) + text;
+    position = range[1];
+  }
+  return result + content.slice(position);
+}
+
+function parseHunkLine(hunk: Hunk, line: string, previous: string): void {
+  const text = line.slice(1);
+  switch (line[0]) {
+    case " ": {
+      hunk.oldLines.push(text);
+      hunk.newLines.push(text);
+      break;
+    }
+    case "-": {
+      hunk.oldLines.push(text);
+      break;
+    }
+    case "+": {
+      hunk.newLines.push(text);
+      break;
+    }
+    case "\\": {
+      // "\ No newline at end of file" refers to the line before it
+      hunk.noNewlineAtEnd = previous[0] !== "-";
+      break;
+    }
+    default: {
+      // Some editors drop the leading space of empty context lines
+      if (line === "") {
+        hunk.oldLines.push("");
+        hunk.newLines.push("");
+      }
+    }
+  }
+}
+
+function parseUnifiedDiff(patch: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | undefined;
+  let remainingOld = 0;
+  let remainingNew = 0;
+  let previous = "";
+
+  for (const line of patch.split("\n").map((text) => text.replace(TRAILING_CARRIAGE_RETURN, ""))) {
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      current = { oldStart: Number(header[1]), oldLines: [], newLines: [], noNewlineAtEnd: false };
+      remainingOld = header[2] === undefined ? 1 : Number(header[2]);
+      remainingNew = header[4] === undefined ? 1 : Number(header[4]);
+      hunks.push(current);
+    } else if (current && (remainingOld > 0 || remainingNew > 0 || line.startsWith("\\"))) {
+      const before = [current.oldLines.length, current.newLines.length];
+      parseHunkLine(current, line, previous);
+      remainingOld -= current.oldLines.length - before[0];
+      remainingNew -= current.newLines.length - before[1];
+    }
+    previous = line;
+  }
+
+  if (hunks.length === 0) {
+    throw new Error("Patch contains no hunks");
+  }
+  return hunks;
+}
+
+function matchesAt(lines: string[], oldLines: string[], index: number): boolean {
+  if (index < 0 || index + oldLines.length > lines.length) {
+    return false;
+  }
+  return oldLines.every((line, offset) => stripTerminator(lines[index + offset]) === line);
+}
+
+/**
+ * Finds where a hunk applies, starting at its stated position and moving
+ * outwards, like patch does when earlier changes shifted the file.
+ */
+function locateHunk(lines: string[], hunk: Hunk, expected: number, minimum: number): number {
+  for (let distance = 0; distance <= lines.length; distance++) {
+    for (const index of [expected - distance, expected + distance]) {
+      if (index >= minimum && matchesAt(lines, hunk.oldLines, index)) {
+        return index;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Applies a unified diff. Context lines must match exactly, hunks may be
+ * shifted from their stated line numbers.
+ */
+export function applyUnifiedDiff(content: string, patch: string): string {
+  const lines = splitLines(content);
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  let delta = 0;
+  let minimum = 0;
+
+  for (const [hunkIndex, hunk] of parseUnifiedDiff(patch).entries()) {
+    // An empty old range is stated as the line after which to insert
+    const stated = hunk.oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const index = locateHunk(lines, hunk, stated + delta, minimum);
+    if (index === -1) {
+      throw new OperationError("PATCH_FAILED", `Hunk ${hunkIndex + 1} does not apply`);
+    }
+
+    const newLines = hunk.newLines.map((line, lineIndex) =>
+      hunk.noNewlineAtEnd && lineIndex === hunk.newLines.length - 1 ? line : line + eol,
+    );
+    lines.splice(index, hunk.oldLines.length, ...newLines);
+    delta += newLines.length - hunk.oldLines.length;
+    minimum = index + newLines.length;
+  }
+
+  return lines.join("");
+}
+
+export interface FilePatch {
+  patch?: string;
+  edits?: TextEdit[];
+  expectedVersion?: Partial<Pick<FileVersion, "hash" | "mtime">>;
+}
+
+/**
+ * Returns the patched content of a text file if it still matches the expected
+ * version, without writing it.
+ */
+export async function preparePatch(
+  fullPath: string,
+  change: FilePatch,
+  path = fullPath,
+): Promise<string> {
+  const [bytes, stats] = await Promise.all([readFile(fullPath), stat(fullPath)]);
+  assertFileVersion(
+    path,
+    { hash: hashContent(bytes), mtime: stats.mtimeMs, size: stats.size },
+    change.expectedVersion,
+  );
+
+  const content = bytes.toString("utf-8");
+  if (change.patch !== undefined) {
+    return applyUnifiedDiff(content, change.patch);
+  }
+  if (change.edits) {
+    return applyTextEdits(content, change.edits);
+  }
+  throw new Error("Either patch or edits are required for patchFile operation");
+}
@@ -0,0 +1,23 @@
+import { parentPort, workerData } from "node:worker_threads";
+import {
+  type RegexMatchRequest,
+  type SearchMatch,
+  type SearchOptions,
+  createSearchPattern,
+  findMatches,
+} from "./search.ts";
+
+// Runs the regular expression of one search, see RegexMatcher
+const { query, caseSensitive } = workerData as { query: string } & SearchOptions;
+const pattern = createSearchPattern(query, { regex: true, caseSensitive });
+
+parentPort?.on("message", ({ path, text, limit }: RegexMatchRequest) => {
+  const matches: SearchMatch[] = [];
+  for (const match of findMatches(path, text, pattern)) {
+    if (matches.length >= limit) {
+      break;
+    }
+    matches.push(match);
+  }
+  parentPort?.postMessage(matches);
+});
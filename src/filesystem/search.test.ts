@@ -0,0 +1,97 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type SearchMatch, type SearchSummary, searchWorkspace } from "./search.ts";
+
+async function collect(
+  search: AsyncGenerator<SearchMatch, SearchSummary>,
+): Promise<{ matches: SearchMatch[]; summary: SearchSummary }> {
+  const matches: SearchMatch[] = [];
+  let result = await search.next();
+  while (!result.done) {
+    matches.push(result.value);
+    result = await search.next();
+  }
+  return { matches, summary: result.value };
+}
+
+describe("searchWorkspace", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "search-test-"));
+    await mkdir(join(dir, "src"));
+    await mkdir(join(dir, "node_modules/dep"), { recursive: true });
+    await writeFile(join(dir, "src/app.ts"), "const value = 1;\nconsole.log(Value + 1);\n");
+    await writeFile(join(dir, "src/notes.md"), "a.b and axb\n");
+    await writeFile(join(dir, "node_modules/dep/index.ts"), "const value = 2;\n");
+    await writeFile(join(dir, "image.bin"), Buffer.from([0x76, 0x61, 0x6c, 0x75, 0x65, 0x00]));
+    await writeFile(join(dir, "backtrack.txt"), `${"a".repeat(40)}b\n`);
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should find literal text case-insensitively with positions", async () => {
+    const { matches, summary } = await collect(searchWorkspace(dir, "value"));
+
+    expect(matches).toEqual([
+      { path: "src/app.ts", line: 1, column: 7, preview: "const value = 1;" },
+      { path: "src/app.ts", line: 2, column: 13, preview: "console.log(Value + 1);" },
+    ]);
+    // Binary files are skipped and node_modules is excluded by default
+    expect(summary).toMatchObject({ matches: 2, limitHit: false });
+  });
+
+  it("should match case-sensitively on request", async () => {
+    const { matches } = await collect(searchWorkspace(dir, "Value", { caseSensitive: true }));
+    expect(matches.map((match) => match.line)).toEqual([2]);
+  });
+
+  it("should treat the query as literal text unless regex is set", async () => {
+    const literal = await collect(searchWorkspace(dir, "a.b"));
+    expect(literal.matches.map((match) => match.column)).toEqual([1]);
+
+    const regex = await collect(searchWorkspace(dir, "a.b", { regex: true, include: ["**/*.md"] }));
+    expect(regex.matches.map((match) => match.column)).toEqual([1, 9]);
+  });
+
+  it("should filter files with include and exclude globs", async () => {
+    const included = await collect(searchWorkspace(dir, "value", { include: ["**/*.md"] }));
+    expect(included.summary.filesSearched).toBe(1);
+    expect(included.matches).toEqual([]);
+
+    const all = await collect(searchWorkspace(dir, "const value", { exclude: [] }));
+    expect(all.matches.map((match) => match.path).sort()).toEqual([
+      "node_modules/dep/index.ts",
+      "src/app.ts",
+    ]);
+  });
+
+  it("should stop at maxResults", async () => {
+    const { matches, summary } = await collect(searchWorkspace(dir, "value", { maxResults: 1 }));
+    expect(matches).toHaveLength(1);
+    expect(summary.limitHit).toBe(true);
+  });
+
+  it("should reject invalid and empty patterns", async () => {
+    await expect(collect(searchWorkspace(dir, "(", { regex: true }))).rejects.toThrow(
+      "Invalid search pattern",
+    );
+    await expect(collect(searchWorkspace(dir, ""))).rejects.toThrow("must not be empty");
+  });
+
+  it("should stop a regular expression that backtracks catastrophically", async () => {
+    const startedAt = Date.now();
+    const search = searchWorkspace(dir, "(a+)+$", {
+      regex: true,
+      include: ["backtrack.txt"],
+      regexTimeout: 200,
+    });
+
+    await expect(collect(search)).rejects.toThrow("took longer than 200 ms");
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+  });
+});
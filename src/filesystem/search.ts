@@ -0,0 +1,211 @@
+import type { Stats } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { Worker } from "node:worker_threads";
+import type { SearchMatchEvent } from "../../protocol/src/index.ts";
+import { OperationError } from "../errors.ts";
+import { isBinaryContent } from "./content.ts";
+import { type WalkOptions, walkWorkspace } from "./walk.ts";
+
+const DEFAULT_EXCLUDE = ["node_modules", ".git"];
+const DEFAULT_MAX_RESULTS = 1000;
+// Larger files are almost always generated or data files
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+const MAX_PREVIEW_LENGTH = 250;
+const REGEX_SPECIAL_CHARACTERS = /[.*+?^${}()|[\]\\]/g;
+const LINE_BREAK = /\r?\n/;
+const DEFAULT_REGEX_TIMEOUT_MS = 5000;
+// The build emits the worker next to the bundle, from source it is a sibling module
+const REGEX_WORKER_URL = new URL(
+  import.meta.url.endsWith(".ts") ? "./search-worker.ts" : "./search-worker.js",
+  import.meta.url,
+);
+
+export type SearchMatch = Omit<SearchMatchEvent, "searchId">;
+
+export interface SearchOptions {
+  regex?: boolean;
+  caseSensitive?: boolean;
+  include?: string[];
+  exclude?: string[];
+  maxResults?: number;
+  ignore?: WalkOptions["ignore"];
+  /** Milliseconds a regular expression may spend on one file, at most the default of 5000 */
+  regexTimeout?: number;
+}
+
+export interface RegexMatchRequest {
+  path: string;
+  text: string;
+  /** Most matches to return */
+  limit: number;
+}
+
+export interface SearchSummary {
+  matches: number;
+  filesSearched: number;
+  limitHit: boolean;
+}
+
+export function createSearchPattern(
+  query: string,
+  options: Pick<SearchOptions, "regex" | "caseSensitive"> = {},
+): RegExp {
+  if (!query) {
+    throw new Error("Search query must not be empty");
+  }
+  const source = options.regex ? query : query.replace(REGEX_SPECIAL_CHARACTERS, "\\$&");
+  try {
+    return new RegExp(source, options.caseSensitive ? "g" : "gi");
+  } catch (error) {
+    throw new Error(`Invalid search pattern: ${error instanceof Error ? error.message : query}`);
+  }
+}
+
+export function* findMatches(path: string, text: string, pattern: RegExp): Generator<SearchMatch> {
+  const lines = text.split(LINE_BREAK);
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    pattern.lastIndex = 0;
+    for (let match = pattern.exec(line); match; match = pattern.exec(line)) {
+      yield {
+        path,
+        line: index + 1,
+        column: match.index + 1,
+        preview: line.length > MAX_PREVIEW_LENGTH ? line.slice(0, MAX_PREVIEW_LENGTH) : line,
+      };
+      // Empty matches would otherwise never advance
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+      }
+    }
+  }
+}
+
+/**
+ * Text of a file worth searching, undefined for binary, oversized and unreadable files.
+ */
+async function readSearchableText(fullPath: string, stats: Stats): Promise<string | undefined> {
+  if (!stats.isFile() || stats.size > MAX_FILE_SIZE) {
+    return undefined;
+  }
+  let content: Buffer;
+  try {
+    content = await readFile(fullPath);
+  } catch {
+    // File vanished or is unreadable
+    return undefined;
+  }
+  return isBinaryContent(content) ? undefined : content.toString("utf-8");
+}
+
+/**
+ * Runs a regular expression in a worker thread, so a pattern that backtracks
+ * catastrophically can be stopped instead of blocking every client.
+ */
+class RegexMatcher {
+  private readonly workerData: { query: string; caseSensitive?: boolean };
+  private readonly timeout: number;
+  private worker?: Worker;
+
+  constructor(query: string, caseSensitive: boolean | undefined, timeout: number) {
+    this.workerData = { query, caseSensitive };
+    this.timeout = timeout;
+  }
+
+  match(request: RegexMatchRequest): Promise<SearchMatch[]> {
+    this.worker ??= new Worker(REGEX_WORKER_URL, { workerData: this.workerData });
+    const worker = this.worker;
+
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer);
+        worker.off("message", onMessage);
+        worker.off("error", onError);
+      };
+      const onMessage = (matches: SearchMatch[]) => {
+        settle();
+        resolve(matches);
+      };
+      const onError = (error: Error) => {
+        settle();
+        reject(error);
+      };
+      const timer = setTimeout(() => {
+        settle();
+        this.close();
+        reject(
+          new OperationError(
+            "SEARCH_TIMEOUT",
+            `Regular expression took longer than ${this.timeout} ms on ${request.path}`,
+          ),
+        );
+      }, this.timeout);
+
+      worker.on("message", onMessage);
+      worker.on("error", onError);
+      worker.postMessage(request);
+    });
+  }
+
+  async close(): Promise<void> {
+    const worker = this.worker;
+    this.worker = undefined;
+    await worker?.terminate();
+  }
+}
+
+/**
+ * Searches the text files below root line by line, yielding matches as they
+ * are found and returning a summary. Binary and oversized files are skipped.
+ */
+export async function* searchWorkspace(
+  root: string,
+  query: string,
+  options: SearchOptions = {},
+): AsyncGenerator<SearchMatch, SearchSummary> {
+  const pattern = createSearchPattern(query, options);
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+  const summary: SearchSummary = { matches: 0, filesSearched: 0, limitHit: false };
+  // Escaped literal queries cannot backtrack, they are matched right here
+  const matcher = options.regex
+    ? new RegexMatcher(
+        query,
+        options.caseSensitive,
+        Math.min(options.regexTimeout ?? DEFAULT_REGEX_TIMEOUT_MS, DEFAULT_REGEX_TIMEOUT_MS),
+      )
+    : undefined;
+
+  const entries = walkWorkspace(root, {
+    include: options.include,
+    exclude: options.exclude ?? DEFAULT_EXCLUDE,
+    ignore: options.ignore,
+  });
+
+  try {
+    for await (const { path, fullPath, stats } of entries) {
+      const text = await readSearchableText(fullPath, stats);
+      if (text === undefined) {
+        continue;
+      }
+
+      summary.filesSearched++;
+      // One more than still fits, so hitting the limit is noticed
+      const limit = maxResults - summary.matches + 1;
+      const matches = matcher
+        ? await matcher.match({ path, text, limit })
+        : findMatches(path, text, pattern);
+      for (const match of matches) {
+        if (summary.matches >= maxResults) {
+          summary.limitHit = true;
+          return summary;
+        }
+        summary.matches++;
+        yield match;
+      }
+    }
+  } finally {
+    await matcher?.close();
+  }
+
+  return summary;
+}
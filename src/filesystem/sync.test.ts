@@ -0,0 +1,162 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { createHash } from "node:crypto";
+import { mkdir, mkdtemp, readdir, rm, stat, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { WorkspaceSandbox } from "../sandbox/sandbox.ts";
+import { FileHashCache, diffManifest, removeSyncedPaths } from "./sync.ts";
+
+const MTIME = new Date("2024-01-01T00:00:00Z");
+
+function sha256(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+describe("diffManifest", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "sync-test-"));
+    await mkdir(join(dir, "src"));
+    await mkdir(join(dir, "node_modules/dep"), { recursive: true });
+    await writeFile(join(dir, "src/index.ts"), "export {};\n");
+    await writeFile(join(dir, "src/changed.ts"), "export const a = 2;\n");
+    await writeFile(join(dir, "src/extra.ts"), "");
+    await writeFile(join(dir, ".env"), "SECRET=1\n");
+    await writeFile(join(dir, "node_modules/dep/index.js"), "");
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should report missing, changed and extra files", async () => {
+    const result = await diffManifest(dir, {
+      "src/index.ts": sha256("export {};\n"),
+      "src/changed.ts": sha256("export const a = 1;\n"),
+      "src/missing.ts": sha256(""),
+      ".env": sha256("SECRET=1\n"),
+    });
+
+    expect(result).toEqual({
+      missing: ["src/missing.ts"],
+      changed: ["src/changed.ts"],
+      extra: ["src/extra.ts"],
+    });
+  });
+
+  it("should normalize leading slashes and digest case", async () => {
+    const result = await diffManifest(dir, {
+      "./src/index.ts": sha256("export {};\n").toUpperCase(),
+      "/src/changed.ts": sha256("export const a = 2;\n"),
+      "src/extra.ts": sha256(""),
+      ".env": sha256("SECRET=1\n"),
+    });
+
+    expect(result).toEqual({ missing: [], changed: [], extra: [] });
+  });
+
+  it("should treat directories and excluded or ignored files as missing", async () => {
+    const result = await diffManifest(
+      dir,
+      { src: sha256(""), "node_modules/dep/index.js": sha256(""), ".env": sha256("SECRET=1\n") },
+      { ignore: (path) => path === ".env" },
+    );
+
+    expect(result).toEqual({
+      missing: [".env", "node_modules/dep/index.js", "src"],
+      changed: [],
+      extra: ["src/changed.ts", "src/extra.ts", "src/index.ts"],
+    });
+  });
+
+  it("should honor a custom exclude list", async () => {
+    const { extra } = await diffManifest(dir, {}, { exclude: ["src"] });
+
+    expect(extra.sort()).toEqual([".env", "node_modules/dep/index.js"]);
+  });
+});
+
+describe("FileHashCache", () => {
+  let dir: string;
+  let path: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "hash-cache-test-"));
+    path = join(dir, "file.txt");
+    await writeFile(path, "first");
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should reuse hashes until the size or mtime changes", async () => {
+    const cache = new FileHashCache();
+    await utimes(path, MTIME, MTIME);
+    expect(await cache.get(path, await stat(path))).toBe(sha256("first"));
+
+    // Same size and mtime, the cached hash is returned without reading the file
+    await writeFile(path, "other");
+    await utimes(path, MTIME, MTIME);
+    expect(await cache.get(path, await stat(path))).toBe(sha256("first"));
+
+    await utimes(path, MTIME, new Date(MTIME.getTime() + 1000));
+    expect(await cache.get(path, await stat(path))).toBe(sha256("other"));
+  });
+
+  it("should read files again after being cleared", async () => {
+    const cache = new FileHashCache();
+    await writeFile(path, "first");
+    await utimes(path, MTIME, MTIME);
+    await cache.get(path, await stat(path));
+
+    await writeFile(path, "other");
+    await utimes(path, MTIME, MTIME);
+    cache.clear();
+    expect(await cache.get(path, await stat(path))).toBe(sha256("other"));
+  });
+});
+
+describe("removeSyncedPaths", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "sync-remove-test-"));
+    await mkdir(join(dir, "app/extra/nested"), { recursive: true });
+    await mkdir(join(dir, "app/config"));
+    await writeFile(join(dir, "app/extra/nested/a.txt"), "");
+    await writeFile(join(dir, "app/old.txt"), "");
+    await writeFile(join(dir, "app/config/locked.json"), "{}");
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should remove extra files and directories through the change", async () => {
+    const removed: string[] = [];
+    await removeSyncedPaths(
+      new WorkspaceSandbox(dir),
+      "app",
+      ["extra", "old.txt", "missing.txt"],
+      async (fullPath, remove) => {
+        removed.push(fullPath);
+        await remove();
+      },
+    );
+
+    expect(removed).toEqual(
+      ["extra", "old.txt", "missing.txt"].map((path) => join(dir, "app", path)),
+    );
+    expect(await readdir(join(dir, "app"))).toEqual(["config"]);
+  });
+
+  it("should not remove directories with read-only paths below them", async () => {
+    const sandbox = new WorkspaceSandbox(dir, { readOnly: ["app/config/locked.json"] });
+    await expect(removeSyncedPaths(sandbox, "app", ["config"])).rejects.toMatchObject({
+      code: "PATH_READ_ONLY",
+    });
+    expect(await readdir(join(dir, "app/config"))).toEqual(["locked.json"]);
+  });
+});
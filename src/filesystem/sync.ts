@@ -0,0 +1,97 @@
+import type { Stats } from "node:fs";
+import { rm } from "node:fs/promises";
+import { join } from "node:path";
+import type { SyncManifestResponse } from "../../protocol/src/index.ts";
+import type { WorkspaceSandbox } from "../sandbox/sandbox.ts";
+import { hashFile } from "./hash.ts";
+import { type WalkOptions, walkWorkspace } from "./walk.ts";
+
+const DEFAULT_EXCLUDE = ["node_modules", ".git"];
+const LEADING_SLASHES = /^(\.?\/)+/;
+
+interface CachedHash {
+  size: number;
+  mtimeMs: number;
+  hash: string;
+}
+
+/**
+ * Remembers file hashes by size and mtime, so repeated syncs of an unchanged
+ * workspace do not read every file again.
+ */
+export class FileHashCache {
+  private readonly hashes: Map<string, CachedHash> = new Map();
+
+  async get(fullPath: string, stats: Stats): Promise<string> {
+    const cached = this.hashes.get(fullPath);
+    if (cached && cached.size === stats.size && cached.mtimeMs === stats.mtimeMs) {
+      return cached.hash;
+    }
+
+    const hash = await hashFile(fullPath);
+    this.hashes.set(fullPath, { size: stats.size, mtimeMs: stats.mtimeMs, hash });
+    return hash;
+  }
+
+  clear(): void {
+    this.hashes.clear();
+  }
+}
+
+/**
+ * Compares a client manifest of relative file paths and SHA-256 digests with
+ * the files below root.
+ */
+export async function diffManifest(
+  root: string,
+  manifest: Record<string, string>,
+  options: { exclude?: string[]; ignore?: WalkOptions["ignore"]; cache?: FileHashCache } = {},
+): Promise<SyncManifestResponse> {
+  const cache = options.cache ?? new FileHashCache();
+  const expected = new Map(
+    Object.entries(manifest).map(([path, hash]) => [
+      path.replace(LEADING_SLASHES, ""),
+      hash.toLowerCase(),
+    ]),
+  );
+  const result: SyncManifestResponse = { missing: [], changed: [], extra: [] };
+
+  const entries = walkWorkspace(root, {
+    exclude: options.exclude ?? DEFAULT_EXCLUDE,
+    ignore: options.ignore,
+  });
+  for await (const { path, fullPath, stats } of entries) {
+    if (!stats.isFile()) {
+      continue;
+    }
+    const hash = expected.get(path);
+    if (hash === undefined) {
+      result.extra.push(path);
+    } else if (hash !== (await cache.get(fullPath, stats))) {
+      result.changed.push(path);
+    }
+    expected.delete(path);
+  }
+
+  // Whatever is left was not found as a file in the workspace
+  result.missing = [...expected.keys()].sort();
+  return result;
+}
+
+/**
+ * Removes the paths a sync leaves out below basePath, files and directories
+ * alike. Each removal runs through `change`, e.g. to lock and record it.
+ */
+export async function removeSyncedPaths(
+  sandbox: WorkspaceSandbox,
+  basePath: string,
+  paths: string[],
+  change: (fullPath: string, remove: () => Promise<void>) => Promise<void> = (_, remove) =>
+    remove(),
+): Promise<void> {
+  for (const path of paths) {
+    const fullPath = sandbox.resolve(join(basePath, path), "write", { followSymlinks: false });
+    await sandbox.assertTreeWritable(fullPath);
+    await change(fullPath, () => rm(fullPath, { recursive: true, force: true }));
+  }
+}
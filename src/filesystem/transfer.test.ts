@@ -0,0 +1,128 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { createHash } from "node:crypto";
+import { mkdir, mkdtemp, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileTransferManager } from "./transfer.ts";
+
+const UUID = /^[0-9a-f-]{36}$/;
+
+describe("FileTransferManager", () => {
+  let dir: string;
+  let transfers: FileTransferManager;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "transfer-test-"));
+    transfers = new FileTransferManager(join(dir, ".transfers"), { chunkSize: 4 });
+  });
+
+  afterAll(async () => {
+    await transfers.stop();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should assemble uploaded chunks and verify the checksum", async () => {
+    const content = Buffer.from([0, 1, 2, 3, 4, 5, 6, 7, 8, 255]);
+    const target = join(dir, "nested/upload.bin");
+    const { transferId, totalChunks } = await transfers.startUpload(target, content.byteLength);
+    expect(totalChunks).toBe(3);
+
+    await transfers.writeChunk(transferId, 2, content.subarray(8));
+    const progress = await transfers.writeChunk(transferId, 0, content.subarray(0, 4));
+    expect(progress.bytesTransferred).toBe(6);
+
+    // Resuming returns the chunks that were already received
+    const resumed = await transfers.startUpload(target, content.byteLength, { transferId });
+    expect(resumed.completedChunks).toEqual([0, 2]);
+
+    await transfers.writeChunk(transferId, 1, content.subarray(4, 8));
+    const checksum = createHash("sha256").update(content).digest("hex");
+    const finished = await transfers.finishUpload(transferId, checksum);
+
+    expect(finished.checksum).toBe(checksum);
+    expect(await readFile(target)).toEqual(content);
+  });
+
+  it("should reject an upload with a mismatching checksum", async () => {
+    const target = join(dir, "mismatch.bin");
+    const { transferId } = await transfers.startUpload(target, 2);
+    await transfers.writeChunk(transferId, 0, Buffer.from([1, 2]));
+
+    await expect(transfers.finishUpload(transferId, "0".repeat(64))).rejects.toThrow(
+      "Checksum mismatch",
+    );
+  });
+
+  it("should not replace a directory with an upload", async () => {
+    const target = join(dir, "directory");
+    const { transferId } = await transfers.startUpload(target, 1);
+    await transfers.writeChunk(transferId, 0, Buffer.from([1]));
+    await mkdir(join(target, "keep"), { recursive: true });
+
+    await expect(transfers.finishUpload(transferId)).rejects.toThrow("not a regular file");
+    expect(await readdir(target)).toEqual(["keep"]);
+    await expect(transfers.startUpload(target, 1)).rejects.toThrow("not a regular file");
+  });
+
+  it("should release the quota reservation once an upload ends", async () => {
+    const released: string[] = [];
+    const reservation = (name: string) => ({ bytes: 1, release: () => released.push(name) });
+    const finished = await transfers.startUpload(join(dir, "reserved.bin"), 1, {
+      reservation: reservation("finished"),
+    });
+    const aborted = await transfers.startUpload(join(dir, "aborted.bin"), 1, {
+      reservation: reservation("aborted"),
+    });
+    await transfers.writeChunk(finished.transferId, 0, Buffer.from([1]));
+
+    await expect(transfers.finishUpload(aborted.transferId)).rejects.toThrow("missing 1 chunk");
+    expect(released).toEqual([]);
+    await transfers.finishUpload(finished.transferId);
+    await transfers.abort(aborted.transferId);
+    expect(released).toEqual(["finished", "aborted"]);
+  });
+
+  it("should only resume transfers it started", async () => {
+    const target = join(dir, "escape.bin");
+    await expect(transfers.startUpload(target, 1, { transferId: "../../escape" })).rejects.toThrow(
+      "not found",
+    );
+
+    const { transferId } = await transfers.startUpload(target, 1);
+    expect(transferId).toMatch(UUID);
+    await expect(transfers.startDownload(target, { transferId })).rejects.toThrow("does not match");
+  });
+
+  it("should serve a file in numbered chunks", async () => {
+    const source = join(dir, "download.txt");
+    await writeFile(source, "hello chunks");
+    const { transferId, totalChunks } = await transfers.startDownload(source);
+
+    const chunks: Buffer[] = [];
+    for (let index = 0; index < totalChunks; index++) {
+      chunks.push((await transfers.readChunk(transferId, index)).content);
+    }
+    // The last chunk can be read again until the download is finished
+    const last = await transfers.readChunk(transferId, totalChunks - 1);
+    expect(last.content).toEqual(chunks[totalChunks - 1]);
+
+    expect(Buffer.concat(chunks).toString()).toBe("hello chunks");
+    expect((await transfers.finishDownload(transferId)).completedChunks).toHaveLength(totalChunks);
+    await expect(transfers.readChunk(transferId, 0)).rejects.toThrow("not found");
+  });
+
+  it("should not finish downloads with chunks missing", async () => {
+    const source = join(dir, "partial.txt");
+    await writeFile(source, "hello chunks");
+    const { transferId } = await transfers.startDownload(source);
+    await transfers.readChunk(transferId, 0);
+
+    await expect(transfers.finishDownload(transferId)).rejects.toThrow("missing 2 chunk(s)");
+  });
+
+  it("should reject invalid upload sizes", async () => {
+    const target = join(dir, "sized.bin");
+    await expect(transfers.startUpload(target, -1)).rejects.toThrow("Invalid upload size");
+    await expect(transfers.startUpload(target, 1.5)).rejects.toThrow("Invalid upload size");
+  });
+});
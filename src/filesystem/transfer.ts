@@ -0,0 +1,361 @@
+import { randomUUID } from "node:crypto";
+import { type FileHandle, lstat, mkdir, open, rm, stat } from "node:fs/promises";
+import { join } from "node:path";
+import type {
+  FileTransferDirection,
+  FileTransferProgressEvent,
+  FileTransferResponse,
+} from "../../protocol/src/index.ts";
+import { OperationError } from "../errors.ts";
+import type { QuotaReservation } from "../quota/quota.ts";
+import { hashFile } from "./hash.ts";
+import { movePath } from "./operations.ts";
+
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+const MAX_CHUNK_SIZE = 8 * 1024 * 1024;
+const DEFAULT_TRANSFER_TTL_MS = 30 * 60 * 1000;
+
+interface Transfer {
+  id: string;
+  direction: FileTransferDirection;
+  path: string;
+  size: number;
+  chunkSize: number;
+  totalChunks: number;
+  completedChunks: Set<number>;
+  handle: FileHandle;
+  lastActivity: number;
+}
+
+interface UploadTransfer extends Transfer {
+  direction: "upload";
+  tempPath: string;
+  /** Quota held for the staged file, released once the upload ends either way */
+  reservation?: QuotaReservation;
+}
+
+interface DownloadTransfer extends Transfer {
+  direction: "download";
+  checksum: string;
+  mtimeMs: number;
+}
+
+export interface FileTransferManagerOptions {
+  chunkSize?: number;
+  ttlMs?: number;
+}
+
+/**
+ * Tracks chunked uploads and downloads independently of the WebSocket that
+ * started them, so a client can reconnect and resume with the same transfer id.
+ * Uploads are staged in tempDir until they are finished. A transfer is kept
+ * until it is finished or aborted, or until it expires after ttlMs without activity.
+ */
+export class FileTransferManager {
+  private readonly transfers: Map<string, UploadTransfer | DownloadTransfer> = new Map();
+  private readonly tempDir: string;
+  private readonly chunkSize: number;
+  private readonly ttlMs: number;
+  private readonly sweepInterval: NodeJS.Timeout;
+
+  constructor(tempDir: string, options: FileTransferManagerOptions = {}) {
+    this.tempDir = tempDir;
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    this.ttlMs = options.ttlMs ?? DEFAULT_TRANSFER_TTL_MS;
+
+    this.sweepInterval = setInterval(() => {
+      this.sweepExpired().catch((error) => {
+        console.error("Failed to sweep expired transfers:", error);
+      });
+    }, this.ttlMs / 2);
+    this.sweepInterval.unref();
+  }
+
+  async startUpload(
+    path: string,
+    size: number,
+    options: { transferId?: string; chunkSize?: number; reservation?: QuotaReservation } = {},
+  ): Promise<FileTransferResponse> {
+    if (!(Number.isSafeInteger(size) && size >= 0)) {
+      throw new Error(`Invalid upload size: ${size}`);
+    }
+    if (options.transferId) {
+      const existing = this.resume(options.transferId);
+      if (existing.direction !== "upload" || existing.path !== path || existing.size !== size) {
+        throw new Error(`Transfer ${existing.id} does not match the requested upload`);
+      }
+      return this.describe(existing);
+    }
+
+    await assertReplaceable(path);
+    const id = randomUUID();
+    const chunkSize = this.resolveChunkSize(options.chunkSize);
+    const tempPath = join(this.tempDir, `${id}.part`);
+
+    await mkdir(this.tempDir, { recursive: true });
+    const handle = await open(tempPath, "w+");
+    await handle.truncate(size);
+
+    const transfer: UploadTransfer = {
+      id,
+      direction: "upload",
+      path,
+      size,
+      chunkSize,
+      totalChunks: countChunks(size, chunkSize),
+      completedChunks: new Set(),
+      handle,
+      lastActivity: Date.now(),
+      tempPath,
+      reservation: options.reservation,
+    };
+    this.transfers.set(id, transfer);
+
+    return this.describe(transfer);
+  }
+
+  async writeChunk(
+    transferId: string,
+    index: number,
+    content: Uint8Array,
+  ): Promise<FileTransferProgressEvent> {
+    const transfer = this.getTransfer(transferId, "upload");
+    const expectedLength = chunkLength(transfer, index);
+
+    if (content.byteLength !== expectedLength) {
+      throw new Error(
+        `Chunk ${index} of transfer ${transferId} must be ${expectedLength} bytes, got ${content.byteLength}`,
+      );
+    }
+
+    await transfer.handle.write(content, 0, content.byteLength, index * transfer.chunkSize);
+    transfer.completedChunks.add(index);
+    transfer.lastActivity = Date.now();
+
+    return this.progress(transfer, index);
+  }
+
+  /**
+   * Destination, size and quota reservation of an upload, for checks before it is finished.
+   */
+  uploadTarget(transferId: string): {
+    path: string;
+    size: number;
+    reservation?: QuotaReservation;
+  } {
+    const { path, size, reservation } = this.getTransfer(transferId, "upload");
+    return { path, size, reservation };
+  }
+
+  async finishUpload(transferId: string, checksum?: string): Promise<FileTransferResponse> {
+    const transfer = this.getTransfer(transferId, "upload");
+
+    if (transfer.completedChunks.size !== transfer.totalChunks) {
+      const missing = transfer.totalChunks - transfer.completedChunks.size;
+      throw new Error(`Transfer ${transferId} is missing ${missing} chunk(s)`);
+    }
+    // Checked again before anything is replaced, the destination may have changed meanwhile
+    await assertReplaceable(transfer.path);
+
+    await transfer.handle.close();
+    const actualChecksum = await hashFile(transfer.tempPath);
+
+    if (checksum && checksum.toLowerCase() !== actualChecksum) {
+      await this.discard(transfer);
+      throw new Error(`Checksum mismatch for transfer ${transferId}: got ${actualChecksum}`);
+    }
+
+    await movePath(transfer.tempPath, transfer.path, "overwrite");
+    this.transfers.delete(transferId);
+    transfer.reservation?.release();
+
+    return { ...this.describe(transfer), checksum: actualChecksum };
+  }
+
+  async startDownload(
+    path: string,
+    options: { transferId?: string; chunkSize?: number } = {},
+  ): Promise<FileTransferResponse> {
+    if (options.transferId) {
+      const existing = this.resume(options.transferId);
+      if (existing.direction !== "download" || existing.path !== path) {
+        throw new Error(`Transfer ${existing.id} does not match the requested download`);
+      }
+      return this.describe(existing);
+    }
+
+    const stats = await stat(path);
+    if (!stats.isFile()) {
+      throw new Error(`${path} is not a file`);
+    }
+
+    const id = randomUUID();
+    const chunkSize = this.resolveChunkSize(options.chunkSize);
+    const transfer: DownloadTransfer = {
+      id,
+      direction: "download",
+      path,
+      size: stats.size,
+      chunkSize,
+      totalChunks: countChunks(stats.size, chunkSize),
+      completedChunks: new Set(),
+      handle: await open(path, "r"),
+      lastActivity: Date.now(),
+      checksum: await hashFile(path),
+      mtimeMs: stats.mtimeMs,
+    };
+    this.transfers.set(id, transfer);
+
+    return this.describe(transfer);
+  }
+
+  async readChunk(
+    transferId: string,
+    index: number,
+  ): Promise<{ content: Buffer; progress: FileTransferProgressEvent }> {
+    const transfer = this.getTransfer(transferId, "download");
+
+    const stats = await transfer.handle.stat();
+    if (stats.mtimeMs !== transfer.mtimeMs || stats.size !== transfer.size) {
+      await this.discard(transfer);
+      throw new Error(`File ${transfer.path} changed during transfer ${transferId}`);
+    }
+
+    const content = Buffer.alloc(chunkLength(transfer, index));
+    await transfer.handle.read(content, 0, content.byteLength, index * transfer.chunkSize);
+    transfer.completedChunks.add(index);
+    transfer.lastActivity = Date.now();
+
+    // Kept until finished, a client that lost the response can request the chunk again
+    return { content, progress: this.progress(transfer, index) };
+  }
+
+  async finishDownload(transferId: string): Promise<FileTransferResponse> {
+    const transfer = this.getTransfer(transferId, "download");
+
+    if (transfer.completedChunks.size !== transfer.totalChunks) {
+      const missing = transfer.totalChunks - transfer.completedChunks.size;
+      throw new Error(`Transfer ${transferId} is missing ${missing} chunk(s)`);
+    }
+    await this.discard(transfer);
+
+    return this.describe(transfer);
+  }
+
+  async abort(transferId: string): Promise<void> {
+    const transfer = this.transfers.get(transferId);
+    if (!transfer) {
+      throw new Error(`Transfer ${transferId} not found`);
+    }
+    await this.discard(transfer);
+  }
+
+  async stop(): Promise<void> {
+    clearInterval(this.sweepInterval);
+    await Promise.all([...this.transfers.values()].map((transfer) => this.discard(transfer)));
+  }
+
+  /**
+   * Ids are only ever generated here, a client-supplied id never names a new
+   * transfer or its temporary file.
+   */
+  private resume(transferId: string): UploadTransfer | DownloadTransfer {
+    const transfer = this.transfers.get(transferId);
+    if (!transfer) {
+      throw new Error(`Transfer ${transferId} not found`);
+    }
+    transfer.lastActivity = Date.now();
+    return transfer;
+  }
+
+  private getTransfer<D extends FileTransferDirection>(
+    transferId: string,
+    direction: D,
+  ): Extract<UploadTransfer | DownloadTransfer, { direction: D }> {
+    const transfer = this.transfers.get(transferId);
+    if (!transfer || transfer.direction !== direction) {
+      throw new Error(`${direction} transfer ${transferId} not found`);
+    }
+    return transfer as Extract<UploadTransfer | DownloadTransfer, { direction: D }>;
+  }
+
+  private resolveChunkSize(requested?: number): number {
+    if (!requested) {
+      return this.chunkSize;
+    }
+    if (!Number.isInteger(requested) || requested <= 0) {
+      throw new Error(`Invalid chunk size: ${requested}`);
+    }
+    return Math.min(requested, MAX_CHUNK_SIZE);
+  }
+
+  private describe(transfer: UploadTransfer | DownloadTransfer): FileTransferResponse {
+    return {
+      transferId: transfer.id,
+      direction: transfer.direction,
+      size: transfer.size,
+      chunkSize: transfer.chunkSize,
+      totalChunks: transfer.totalChunks,
+      completedChunks: [...transfer.completedChunks].sort((a, b) => a - b),
+      checksum: transfer.direction === "download" ? transfer.checksum : undefined,
+    };
+  }
+
+  private progress(transfer: Transfer, index: number): FileTransferProgressEvent {
+    let bytesTransferred = 0;
+    for (const completed of transfer.completedChunks) {
+      bytesTransferred += chunkLength(transfer, completed);
+    }
+
+    return {
+      transferId: transfer.id,
+      direction: transfer.direction,
+      index,
+      bytesTransferred,
+      totalBytes: transfer.size,
+      completedChunks: transfer.completedChunks.size,
+      totalChunks: transfer.totalChunks,
+    };
+  }
+
+  private async discard(transfer: UploadTransfer | DownloadTransfer): Promise<void> {
+    this.transfers.delete(transfer.id);
+    await transfer.handle.close().catch(() => {
+      // Handle may already be closed after a failed finish
+    });
+    if (transfer.direction === "upload") {
+      await rm(transfer.tempPath, { force: true });
+      transfer.reservation?.release();
+    }
+  }
+
+  private async sweepExpired(): Promise<void> {
+    const expiredBefore = Date.now() - this.ttlMs;
+    for (const transfer of this.transfers.values()) {
+      if (transfer.lastActivity < expiredBefore) {
+        await this.discard(transfer);
+      }
+    }
+  }
+}
+
+/**
+ * Uploads create or replace regular files only, an overwrite must never remove a directory.
+ */
+async function assertReplaceable(path: string): Promise<void> {
+  const stats = await lstat(path).catch(() => null);
+  if (stats && !stats.isFile()) {
+    throw new OperationError("NOT_A_FILE", `${path} exists and is not a regular file`);
+  }
+}
+
+function countChunks(size: number, chunkSize: number): number {
+  return Math.max(1, Math.ceil(size / chunkSize));
+}
+
+function chunkLength(transfer: Transfer, index: number): number {
+  if (!Number.isInteger(index) || index < 0 || index >= transfer.totalChunks) {
+    throw new Error(`Chunk index ${index} is out of range for transfer ${transfer.id}`);
+  }
+  return Math.min(transfer.chunkSize, transfer.size - index * transfer.chunkSize);
+}
@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import {
+  lstat,
+  mkdir,
+  mkdtemp,
+  readFile,
+  readlink,
+  rm,
+  symlink,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { WorkspaceSandbox } from "../sandbox/sandbox.ts";
+import { readTree, writeTree } from "./tree.ts";
+
+describe("readTree", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "tree-test-"));
+    await mkdir(join(dir, "src/lib"), { recursive: true });
+    await mkdir(join(dir, "node_modules/pkg"), { recursive: true });
+    await writeFile(join(dir, "src/index.ts"), "export {};\n");
+    await writeFile(join(dir, "src/lib/util.ts"), "export const x = 1;\n");
+    await writeFile(join(dir, "logo.png"), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]));
+    await writeFile(join(dir, "big.txt"), "x".repeat(100));
+    await writeFile(join(dir, "node_modules/pkg/index.js"), "");
+    await symlink("src", join(dir, "link"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should read a directory into the shape mount accepts", async () => {
+    const result = await readTree(dir, { maxFileSize: 50 });
+
+    expect(result).toEqual({
+      tree: {
+        "big.txt": { file: { contents: "", skipped: "too-large" } },
+        link: { symlink: { target: "src" } },
+        "logo.png": { file: { contents: "", skipped: "binary" } },
+        src: {
+          directory: {
+            "index.ts": { file: { contents: "export {};\n" } },
+            lib: { directory: { "util.ts": { file: { contents: "export const x = 1;\n" } } } },
+          },
+        },
+      },
+      files: 4,
+      skipped: 2,
+    });
+  });
+
+  it("should apply exclude patterns", async () => {
+    const { tree } = await readTree(dir, { exclude: ["lib", "*.png", "big.txt"] });
+
+    expect(Object.keys(tree).sort()).toEqual(["link", "node_modules", "src"]);
+    expect(Object.keys((tree.src as { directory: object }).directory)).toEqual(["index.ts"]);
+  });
+});
+
+describe("writeTree", () => {
+  let dir: string;
+  let sandbox: WorkspaceSandbox;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "write-tree-test-"));
+    sandbox = new WorkspaceSandbox(dir);
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should write binary contents, modes and symlinks", async () => {
+    await writeTree(sandbox, "app", {
+      gradlew: { file: { contents: "#!/bin/sh\n", mode: 0o755 } },
+      "icon.png": { file: { contents: "iVBORw0KGgo=", encoding: "base64" } },
+      bin: { directory: { run: { symlink: { target: "../gradlew" } } } },
+    });
+
+    expect((await lstat(join(dir, "app/gradlew"))).mode & 0o777).toBe(0o755);
+    expect(await readFile(join(dir, "app/icon.png"))).toEqual(
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    );
+    expect(await readlink(join(dir, "app/bin/run"))).toBe("../gradlew");
+
+    const { tree } = await readTree(join(dir, "app"));
+    expect(tree.gradlew).toEqual({ file: { contents: "#!/bin/sh\n", mode: 0o755 } });
+  });
+
+  it("should leave skipped files untouched", async () => {
+    await writeFile(join(dir, "keep.bin"), "original");
+    await writeTree(sandbox, "", { "keep.bin": { file: { contents: "", skipped: "binary" } } });
+
+    expect(await readFile(join(dir, "keep.bin"), "utf-8")).toBe("original");
+  });
+
+  it("should refuse symlinks that point outside the workspace", async () => {
+    const relative = writeTree(sandbox, "", { etc: { symlink: { target: "../../etc" } } });
+    await expect(relative).rejects.toMatchObject({ code: "PATH_OUTSIDE_WORKSPACE" });
+
+    const absolute = writeTree(sandbox, "", { passwd: { symlink: { target: "/etc/passwd" } } });
+    await expect(absolute).rejects.toMatchObject({ code: "PATH_OUTSIDE_WORKSPACE" });
+    expect(await lstat(join(dir, "passwd")).catch(() => null)).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import { Buffer } from "node:buffer";
+import type { Stats } from "node:fs";
+import { chmod, mkdir, readFile, readlink, rm, symlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { FileNode, FileSystemTree, ReadTreeResponse } from "../../protocol/src/index.ts";
+import type { WorkspaceSandbox } from "../sandbox/sandbox.ts";
+import { isBinaryContent } from "./content.ts";
+import { type WalkOptions, walkWorkspace } from "./walk.ts";
+
+const DEFAULT_EXCLUDE = ["node_modules", ".git"];
+const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+export interface ReadTreeOptions {
+  exclude?: string[];
+  maxFileSize?: number;
+  ignore?: WalkOptions["ignore"];
+}
+
+async function readFileNode(
+  fullPath: string,
+  stats: Stats,
+  maxFileSize: number,
+): Promise<FileNode> {
+  // Only executables carry a mode, everything else is fine with the default
+  const mode = stats.mode & 0o111 ? { mode: stats.mode & 0o7777 } : {};
+  if (stats.size > maxFileSize) {
+    return { file: { contents: "", ...mode, skipped: "too-large" } };
+  }
+  const content = await readFile(fullPath);
+  if (isBinaryContent(content)) {
+    return { file: { contents: "", ...mode, skipped: "binary" } };
+  }
+  return { file: { contents: content.toString("utf-8"), ...mode } };
+}
+
+/**
+ * Reads the directory below root into a FileSystemTree, the shape mount accepts.
+ * Binary and oversized files are included with empty contents and a skipped
+ * marker. Symlinks are included as such and not followed.
+ */
+export async function readTree(
+  root: string,
+  options: ReadTreeOptions = {},
+): Promise<ReadTreeResponse> {
+  const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  const result: ReadTreeResponse = { tree: {}, files: 0, skipped: 0 };
+  // Directories are walked before their contents, so the parent is always known
+  const directories = new Map<string, FileSystemTree>([["", result.tree]]);
+
+  const entries = walkWorkspace(root, {
+    exclude: options.exclude ?? DEFAULT_EXCLUDE,
+    ignore: options.ignore,
+  });
+
+  for await (const { path, fullPath, stats } of entries) {
+    const separator = path.lastIndexOf("/");
+    const parentPath = separator === -1 ? "" : path.slice(0, separator);
+    const parent = directories.get(parentPath) as FileSystemTree;
+    const name = path.slice(separator + 1);
+
+    if (stats.isDirectory()) {
+      const directory: FileSystemTree = {};
+      directories.set(path, directory);
+      parent[name] = { directory };
+    } else if (stats.isFile()) {
+      const node = await readFileNode(fullPath, stats, maxFileSize);
+      parent[name] = node;
+      result.files++;
+      if (node.file.skipped) {
+        result.skipped++;
+      }
+    } else if (stats.isSymbolicLink()) {
+      parent[name] = { symlink: { target: await readlink(fullPath) } };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The bytes of a file node, decoded from its encoding.
+ */
+export function fileNodeContent(node: FileNode): Buffer {
+  return Buffer.from(node.file.contents, node.file.encoding ?? "utf-8");
+}
+
+/**
+ * Files and symlinks a tree writes, with their paths below basePath and size in bytes.
+ * Skipped files are left out, writeTree does not touch them.
+ */
+export function listTreeEntries(
+  basePath: string,
+  tree: FileSystemTree,
+): { path: string; size: number }[] {
+  return Object.entries(tree).flatMap(([name, node]) => {
+    const path = join(basePath, name);
+    if ("directory" in node) {
+      return listTreeEntries(path, node.directory);
+    }
+    if ("symlink" in node) {
+      return [{ path, size: Buffer.byteLength(node.symlink.target) }];
+    }
+    return node.file.skipped ? [] : [{ path, size: fileNodeContent(node).byteLength }];
+  });
+}
+
+async function writeFileNode(fullPath: string, node: FileNode): Promise<void> {
+  await writeFile(fullPath, fileNodeContent(node));
+  if (node.file.mode !== undefined) {
+    await chmod(fullPath, node.file.mode & 0o7777);
+  }
+}
+
+async function writeSymlink(
+  sandbox: WorkspaceSandbox,
+  path: string,
+  target: string,
+): Promise<void> {
+  sandbox.assertLinkTarget(path, target);
+  const fullPath = sandbox.resolve(path, "write", { followSymlinks: false });
+  await rm(fullPath, { force: true });
+  await symlink(target, fullPath);
+}
+
+/**
+ * Writes a tree below a workspace-relative path, the inverse of readTree. Every
+ * entry goes through the sandbox, since the tree may contain protected paths,
+ * reach existing symlinks or create new ones.
+ */
+export async function writeTree(
+  sandbox: WorkspaceSandbox,
+  basePath: string,
+  tree: FileSystemTree,
+): Promise<void> {
+  await mkdir(sandbox.resolve(basePath, "write"), { recursive: true });
+
+  for (const [name, node] of Object.entries(tree)) {
+    const path = join(basePath, name);
+    if ("directory" in node) {
+      await writeTree(sandbox, path, node.directory);
+    } else if ("symlink" in node) {
+      await writeSymlink(sandbox, path, node.symlink.target);
+    } else if (!node.file.skipped) {
+      // Files readTree left out are kept as they are
+      await writeFileNode(sandbox.resolve(path, "write"), node);
+    }
+  }
+}
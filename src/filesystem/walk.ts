@@ -0,0 +1,102 @@
+import type { Stats } from "node:fs";
+import { lstat, readdir } from "node:fs/promises";
+import { join } from "node:path";
+import { Glob } from "bun";
+
+const LEADING_RELATIVE_PREFIX = /^\.?\//;
+
+export interface WalkEntry {
+  /** Path relative to the walk root, using "/" separators */
+  path: string;
+  fullPath: string;
+  stats: Stats;
+}
+
+export interface WalkOptions {
+  include?: string[];
+  exclude?: string[];
+  maxDepth?: number;
+  /** Extra check for paths that should be skipped, e.g. .gitignore rules */
+  ignore?: (path: string, isDirectory: boolean) => boolean;
+}
+
+export type PathMatcher = (path: string) => boolean;
+
+/**
+ * Builds a matcher for workspace-relative paths.
+ * Patterns without a "/" match a path segment at any depth, so "node_modules"
+ * behaves like "**\/node_modules" and also covers everything below it.
+ */
+export function createPathMatcher(patterns: string[]): PathMatcher {
+  const globs = patterns.map((pattern) => {
+    const normalized = pattern.replace(LEADING_RELATIVE_PREFIX, "");
+    return new Glob(normalized.includes("/") ? normalized : `**/${normalized}`);
+  });
+
+  return (path: string) => {
+    const segments = path.split("/");
+    // A path is matched when it or one of its parent directories matches
+    for (let length = segments.length; length > 0; length--) {
+      const candidate = segments.slice(0, length).join("/");
+      if (globs.some((glob) => glob.match(candidate))) {
+        return true;
+      }
+    }
+    return false;
+  };
+}
+
+async function readEntries(root: string, relativeDir: string): Promise<WalkEntry[]> {
+  let names: string[];
+  try {
+    names = await readdir(join(root, relativeDir));
+  } catch {
+    // Directory vanished or is unreadable
+    return [];
+  }
+
+  const entries: WalkEntry[] = [];
+  for (const name of names.sort()) {
+    const path = relativeDir ? `${relativeDir}/${name}` : name;
+    const fullPath = join(root, path);
+    try {
+      entries.push({ path, fullPath, stats: await lstat(fullPath) });
+    } catch {
+      // Entry vanished between readdir and lstat
+    }
+  }
+  return entries;
+}
+
+/**
+ * Recursively lists a directory without following symlinks.
+ * Excluded directories are not descended into; include patterns only filter files.
+ */
+export function walkWorkspace(root: string, options: WalkOptions = {}): AsyncGenerator<WalkEntry> {
+  const isIncluded = createPathMatcher(options.include ?? []);
+  const isExcluded = createPathMatcher(options.exclude ?? []);
+  const hasIncludes = (options.include ?? []).length > 0;
+  const maxDepth = options.maxDepth ?? Number.POSITIVE_INFINITY;
+
+  const isSkipped = ({ path, stats }: WalkEntry) => {
+    const isDirectory = stats.isDirectory();
+    if (isExcluded(path) || options.ignore?.(path, isDirectory)) {
+      return true;
+    }
+    return !isDirectory && hasIncludes && !isIncluded(path);
+  };
+
+  async function* walkDirectory(relativeDir: string, depth: number): AsyncGenerator<WalkEntry> {
+    for (const entry of await readEntries(root, relativeDir)) {
+      if (isSkipped(entry)) {
+        continue;
+      }
+      yield entry;
+      if (entry.stats.isDirectory() && depth < maxDepth) {
+        yield* walkDirectory(entry.path, depth + 1);
+      }
+    }
+  }
+
+  return walkDirectory("", 1);
+}
@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { mkdir, mkdtemp, readFile, readdir, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { FileHistoryOperationType } from "../../protocol/src/index.ts";
+import { ObjectStore } from "../filesystem/objects.ts";
+import { DiskQuota } from "../quota/quota.ts";
+import { FileJournal } from "./journal.ts";
+
+async function record(
+  journal: FileJournal,
+  fullPaths: string[],
+  operation: FileHistoryOperationType,
+  connectionId?: string,
+): Promise<void> {
+  await journal.commit(await journal.capture(fullPaths, operation, connectionId));
+}
+
+describe("FileJournal", () => {
+  let dir: string;
+  let workdir: string;
+  let journal: FileJournal;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "journal-test-"));
+    workdir = join(dir, "workspace");
+    await mkdir(workdir, { recursive: true });
+    journal = new FileJournal(workdir, join(dir, "data"), { maxVersionsPerFile: 3 });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should list versions newest first with their origin", async () => {
+    const file = join(workdir, "a.txt");
+    await record(journal, [file], "writeFile", "ws-1");
+    await writeFile(file, "one");
+    await record(journal, [file], "writeFile", "ws-2");
+    await writeFile(file, "two");
+
+    const versions = await journal.history(file);
+    expect(versions.map((version) => [version.exists, version.connectionId])).toEqual([
+      [true, "ws-2"],
+      [false, "ws-1"],
+    ]);
+    expect(versions[0]).toMatchObject({ operation: "writeFile", size: 3 });
+  });
+
+  it("should skip versions identical to the latest one", async () => {
+    const file = join(workdir, "a.txt");
+    await writeFile(file, "same");
+    await record(journal, [file], "writeFile");
+    await record(journal, [file], "writeFile");
+    expect(await journal.history(file)).toHaveLength(1);
+  });
+
+  it("should record the files of a removed directory", async () => {
+    await mkdir(join(workdir, "src/node_modules"), { recursive: true });
+    await writeFile(join(workdir, "src/index.ts"), "export {};\n");
+    await writeFile(join(workdir, "src/node_modules/dep.js"), "");
+    await record(journal, [join(workdir, "src")], "rm");
+
+    expect(await journal.history(join(workdir, "src/index.ts"))).toHaveLength(1);
+    expect(await journal.history(join(workdir, "src/node_modules/dep.js"))).toHaveLength(0);
+  });
+
+  it("should record nothing for a removed excluded directory", async () => {
+    await mkdir(join(workdir, "node_modules/dep"), { recursive: true });
+    await writeFile(join(workdir, "node_modules/dep/index.js"), "");
+    await record(journal, [join(workdir, "node_modules")], "rm");
+    await record(journal, [join(workdir, "node_modules/dep")], "rm");
+
+    expect(await journal.history(join(workdir, "node_modules/dep/index.js"))).toEqual([]);
+  });
+
+  it("should stop capturing a directory at maxBytes", async () => {
+    const small = new FileJournal(workdir, join(dir, "small"), { maxBytes: 10 });
+    await mkdir(join(workdir, "src"));
+    for (const name of ["a", "b", "c"]) {
+      await writeFile(join(workdir, "src", name), "123456");
+    }
+
+    const captured = await small.capture([join(workdir, "src")], "rm");
+    expect(captured.entries.map((entry) => entry.path)).toEqual(["src/a", "src/b"]);
+  });
+
+  it("should remove the contents of a failed capture", async () => {
+    await mkdir(join(workdir, "src"));
+    await writeFile(join(workdir, "src/a"), "a");
+    await writeFile(join(workdir, "src/b"), "b");
+    const add = ObjectStore.prototype.add;
+    let calls = 0;
+    const spy = spyOn(ObjectStore.prototype, "add").mockImplementation(function (
+      this: ObjectStore,
+      fullPath: string,
+    ) {
+      calls++;
+      return calls > 1 ? Promise.reject(new Error("ENOSPC")) : add.call(this, fullPath);
+    });
+    try {
+      await expect(journal.capture([join(workdir, "src")], "rm")).rejects.toThrow("ENOSPC");
+    } finally {
+      spy.mockRestore();
+    }
+
+    const objects = await readdir(join(dir, "data/journal/objects"), { recursive: true });
+    expect(objects.filter((object) => object.includes("/"))).toEqual([]);
+  });
+
+  it("should restore contents and mode, recording what it replaced", async () => {
+    const file = join(workdir, "run.sh");
+    await writeFile(file, "#!/bin/sh\n", { mode: 0o755 });
+    await record(journal, [file], "rm");
+    await rm(file);
+
+    const [version] = await journal.history(file);
+    await journal.restore(file, version.versionId, "ws-1");
+    expect(await readFile(file, "utf-8")).toBe("#!/bin/sh\n");
+    expect((await stat(file)).mode & 0o777).toBe(0o755);
+
+    const [replaced] = await journal.history(file);
+    expect(replaced).toMatchObject({ operation: "restoreFileVersion", exists: false });
+    await journal.restore(file, replaced.versionId);
+    expect(await readdir(workdir)).toEqual([]);
+  });
+
+  it("should not restore a version beyond the quota", async () => {
+    const file = join(workdir, "a.txt");
+    await writeFile(file, "x".repeat(100));
+    await record(journal, [file], "writeFile");
+    await writeFile(file, "small");
+    const quota = new DiskQuota(workdir, { limitBytes: 50 });
+    await quota.start();
+    quota.stop();
+
+    // Restored the way the server does, within the quota of the version's size
+    const [version] = await journal.history(file);
+    const restore = quota.apply([file], version.size, () =>
+      journal.restore(file, version.versionId),
+    );
+    await expect(restore).rejects.toMatchObject({ code: "QUOTA_EXCEEDED" });
+    expect(await readFile(file, "utf-8")).toBe("small");
+    expect(await journal.history(file)).toHaveLength(1);
+  });
+
+  it("should drop the oldest versions and their contents", async () => {
+    const file = join(workdir, "a.txt");
+    for (const content of ["1", "2", "3", "4", "5"]) {
+      await writeFile(file, content);
+      await record(journal, [file], "writeFile");
+    }
+
+    const versions = await journal.history(file);
+    expect(versions).toHaveLength(3);
+    const objects = await readdir(join(dir, "data/journal/objects"), { recursive: true });
+    expect(objects.filter((object) => object.includes("/"))).toHaveLength(3);
+    await expect(journal.restore(file, "missing")).rejects.toThrow("not found");
+  });
+
+  it("should record nothing for a failed operation", async () => {
+    const file = join(workdir, "a.txt");
+    await writeFile(file, "before");
+    const captured = await journal.capture([file], "writeFile");
+    const kept = await journal.capture([file], "writeFile");
+
+    await journal.discard(captured);
+    expect(await journal.history(file)).toEqual([]);
+    // The content is still needed by the other capture
+    await journal.commit(kept);
+    const [version] = await journal.history(file);
+    await writeFile(file, "after");
+    await journal.restore(file, version.versionId);
+    expect(await readFile(file, "utf-8")).toBe("before");
+  });
+
+  it("should remove the contents of discarded versions", async () => {
+    const file = join(workdir, "a.txt");
+    await writeFile(file, "discarded");
+    await journal.discard(await journal.capture([file], "writeFile"));
+
+    const objects = await readdir(join(dir, "data/journal/objects"), { recursive: true });
+    expect(objects.filter((object) => object.includes("/"))).toEqual([]);
+  });
+
+  it("should keep stored contents within maxBytes", async () => {
+    const small = new FileJournal(workdir, join(dir, "small"), { maxBytes: 10 });
+    const file = join(workdir, "a.txt");
+    await writeFile(file, "123456");
+    await record(small, [file], "writeFile");
+    await writeFile(file, "abcdef");
+    await record(small, [file], "writeFile");
+
+    const [version] = await small.history(file);
+    expect(await small.history(file)).toHaveLength(1);
+    await small.restore(file, version.versionId);
+    expect(await readFile(file, "utf-8")).toBe("abcdef");
+  });
+});
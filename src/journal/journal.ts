@@ -0,0 +1,356 @@
+import { randomUUID } from "node:crypto";
+import { lstat, mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join, relative } from "node:path";
+import type { FileHistoryOperationType, FileHistoryVersion } from "../../protocol/src/index.ts";
+import { TaskQueue } from "../filesystem/lock.ts";
+import { ObjectStore } from "../filesystem/objects.ts";
+import { createPathMatcher, walkWorkspace } from "../filesystem/walk.ts";
+
+const DEFAULT_MAX_VERSIONS_PER_FILE = 20;
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024;
+// Larger files would push everything else out of the journal
+const DEFAULT_MAX_FILE_SIZE = 5 * 1024 * 1024;
+// Removing a directory records the files below it, except in these
+const isExcluded = createPathMatcher(["node_modules", ".git"]);
+
+interface JournalEntry extends FileHistoryVersion {
+  path: string;
+  /** Content hash, missing when the file did not exist */
+  hash?: string;
+  mode?: number;
+}
+
+type EntryOrigin = Pick<JournalEntry, "operation" | "connectionId" | "timestamp">;
+
+/**
+ * File states stored before an operation, recorded once it succeeded.
+ */
+export interface CapturedVersions {
+  entries: JournalEntry[];
+}
+
+export interface FileJournalOptions {
+  maxVersionsPerFile?: number;
+  /** Limit for the stored contents of all versions together */
+  maxBytes?: number;
+  maxFileSize?: number;
+}
+
+function toVersion({
+  path: _path,
+  hash: _hash,
+  mode: _mode,
+  ...version
+}: JournalEntry): FileHistoryVersion {
+  return version;
+}
+
+/**
+ * Drops the oldest entries until the contents they refer to fit into maxBytes.
+ */
+function limitBytes(entries: JournalEntry[], maxBytes: number): void {
+  // Each content is stored once, however many versions share it
+  const references = new Map<string, { size: number; count: number }>();
+  let bytes = 0;
+  for (const { hash, size } of entries) {
+    if (!hash) {
+      continue;
+    }
+    const reference = references.get(hash) ?? { size, count: 0 };
+    bytes += reference.count === 0 ? size : 0;
+    reference.count++;
+    references.set(hash, reference);
+  }
+  while (bytes > maxBytes && entries.length > 0) {
+    const { hash } = entries.shift() as JournalEntry;
+    const reference = hash ? references.get(hash) : undefined;
+    if (hash && reference && --reference.count === 0) {
+      bytes -= reference.size;
+      references.delete(hash);
+    }
+  }
+}
+
+/**
+ * Keeps the previous contents of workspace files under a data directory, so a
+ * single file can be rolled back without a snapshot. Contents are stored by
+ * their SHA-256 in objects/, index.json lists all versions oldest first.
+ */
+export class FileJournal {
+  private readonly workdir: string;
+  private readonly journalDir: string;
+  private readonly objects: ObjectStore;
+  private readonly maxVersionsPerFile: number;
+  private readonly maxBytes: number;
+  private readonly maxFileSize: number;
+  private entries?: JournalEntry[];
+  // Contents of captured versions not yet committed or discarded, by hash
+  private readonly uncommitted: Map<string, number> = new Map();
+  // Every change rewrites the index, so they run one at a time
+  private readonly queue: TaskQueue = new TaskQueue();
+
+  constructor(workdir: string, dataDir: string, options: FileJournalOptions = {}) {
+    this.workdir = workdir;
+    this.journalDir = join(dataDir, "journal");
+    this.objects = new ObjectStore(join(this.journalDir, "objects"));
+    this.maxVersionsPerFile = options.maxVersionsPerFile ?? DEFAULT_MAX_VERSIONS_PER_FILE;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  }
+
+  /**
+   * Stores the current state of files before an operation replaces or removes
+   * them. Directories are captured file by file, until the captured contents
+   * reach the size limit of the journal. Pass the result to `commit` once the
+   * operation succeeded, or to `discard` when it failed.
+   */
+  capture(
+    fullPaths: string[],
+    operation: FileHistoryOperationType,
+    connectionId?: string,
+  ): Promise<CapturedVersions> {
+    return this.queue.exclusive(async () => {
+      const origin: EntryOrigin = { operation, connectionId, timestamp: Date.now() };
+      const entries: JournalEntry[] = [];
+      let bytes = 0;
+      try {
+        for (const fullPath of await this.expand(fullPaths)) {
+          // Older versions would all be pruned for the rest anyway
+          if (bytes >= this.maxBytes) {
+            break;
+          }
+          const entry = await this.captureFile(fullPath, origin);
+          if (entry) {
+            entries.push(entry);
+            bytes += entry.size;
+          }
+        }
+      } catch (error) {
+        for (const entry of entries) {
+          this.release(entry);
+        }
+        await this.removeUnreferenced(await this.load(), entries);
+        throw error;
+      }
+      return { entries };
+    });
+  }
+
+  /**
+   * Records captured versions, except those matching the latest version of their file.
+   */
+  commit(captured: CapturedVersions): Promise<void> {
+    return this.queue.exclusive(async () => {
+      const entries = await this.load();
+      for (const entry of captured.entries) {
+        this.release(entry);
+        this.append(entries, entry);
+      }
+      await this.prune(entries, captured.entries);
+      await this.save(entries);
+    });
+  }
+
+  /**
+   * Drops captured versions, the operation they were captured for failed.
+   */
+  discard(captured: CapturedVersions): Promise<void> {
+    return this.queue.exclusive(async () => {
+      const entries = await this.load();
+      for (const entry of captured.entries) {
+        this.release(entry);
+      }
+      await this.removeUnreferenced(entries, captured.entries);
+    });
+  }
+
+  /**
+   * Recorded versions of a file, newest first.
+   */
+  async history(fullPath: string): Promise<FileHistoryVersion[]> {
+    const path = relative(this.workdir, fullPath);
+    const entries = await this.queue.exclusive(() => this.load());
+    return entries
+      .filter((entry) => entry.path === path)
+      .reverse()
+      .map(toVersion);
+  }
+
+  /**
+   * Puts a file back into a recorded version. The content it replaces is
+   * recorded first, so a restore can be undone as well.
+   */
+  restore(fullPath: string, versionId: string, connectionId?: string): Promise<FileHistoryVersion> {
+    return this.queue.exclusive(async () => {
+      const path = relative(this.workdir, fullPath);
+      const entries = await this.load();
+      const entry = entries.find((item) => item.versionId === versionId && item.path === path);
+      if (!entry) {
+        throw new Error(`Version ${versionId} of ${path} not found`);
+      }
+
+      const replaced = await this.captureFile(fullPath, {
+        operation: "restoreFileVersion",
+        connectionId,
+        timestamp: Date.now(),
+      });
+      const captured = replaced ? [replaced] : [];
+      for (const item of captured) {
+        this.release(item);
+      }
+      try {
+        await this.put(fullPath, entry);
+      } catch (error) {
+        await this.removeUnreferenced(entries, captured);
+        throw error;
+      }
+      for (const item of captured) {
+        this.append(entries, item);
+      }
+      await this.prune(entries, captured);
+      await this.save(entries);
+      return toVersion(entry);
+    });
+  }
+
+  /**
+   * Lists the files to capture for the given paths. Excluded directories are
+   * matched by their workspace-relative path, so removing one records nothing.
+   */
+  private async expand(fullPaths: string[]): Promise<string[]> {
+    const files: string[] = [];
+    for (const fullPath of fullPaths) {
+      const stats = await lstat(fullPath).catch(() => null);
+      if (!stats?.isDirectory()) {
+        files.push(fullPath);
+        continue;
+      }
+      const root = relative(this.workdir, fullPath);
+      if (root && isExcluded(root)) {
+        continue;
+      }
+      const ignore = (path: string) => isExcluded(root ? `${root}/${path}` : path);
+      for await (const entry of walkWorkspace(fullPath, { ignore })) {
+        if (entry.stats.isFile()) {
+          files.push(entry.fullPath);
+        }
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Stores the current state of a file. Symlinks, special files and oversized
+   * files are not captured.
+   */
+  private async captureFile(
+    fullPath: string,
+    origin: EntryOrigin,
+  ): Promise<JournalEntry | undefined> {
+    const stats = await lstat(fullPath).catch(() => null);
+    if (stats && !(stats.isFile() && stats.size <= this.maxFileSize)) {
+      return undefined;
+    }
+
+    const hash = stats ? await this.objects.add(fullPath) : undefined;
+    if (hash) {
+      this.uncommitted.set(hash, (this.uncommitted.get(hash) ?? 0) + 1);
+    }
+    return {
+      versionId: randomUUID(),
+      path: relative(this.workdir, fullPath),
+      ...origin,
+      exists: Boolean(stats),
+      size: stats?.size ?? 0,
+      hash,
+      mode: stats ? stats.mode & 0o7777 : undefined,
+    };
+  }
+
+  private release({ hash }: JournalEntry): void {
+    const count = hash ? this.uncommitted.get(hash) : undefined;
+    if (hash && count !== undefined) {
+      if (count > 1) {
+        this.uncommitted.set(hash, count - 1);
+      } else {
+        this.uncommitted.delete(hash);
+      }
+    }
+  }
+
+  /**
+   * Adds a version, unless it is the same as the latest version of its file.
+   */
+  private append(entries: JournalEntry[], entry: JournalEntry): void {
+    const latest = entries.findLast((item) => item.path === entry.path);
+    if (!latest || latest.hash !== entry.hash) {
+      entries.push(entry);
+    }
+  }
+
+  private async put(fullPath: string, entry: JournalEntry): Promise<void> {
+    if (!entry.hash) {
+      await rm(fullPath, { force: true });
+      return;
+    }
+    await this.objects.copyTo(entry.hash, fullPath, { mode: entry.mode });
+  }
+
+  /**
+   * Drops the oldest versions beyond the per-file and total size limits, and
+   * the contents no remaining version refers to. `added` are versions that
+   * were just offered to the journal, whether they were appended or not.
+   */
+  private async prune(entries: JournalEntry[], added: JournalEntry[]): Promise<void> {
+    const versions = new Map<string, number>();
+    const kept = entries
+      .toReversed()
+      .filter((entry) => {
+        const count = (versions.get(entry.path) ?? 0) + 1;
+        versions.set(entry.path, count);
+        return count <= this.maxVersionsPerFile;
+      })
+      .reverse();
+
+    limitBytes(kept, this.maxBytes);
+    const removed = [...entries, ...added];
+    entries.splice(0, entries.length, ...kept);
+    await this.removeUnreferenced(entries, removed);
+  }
+
+  /**
+   * Removes the contents of `candidates` that no version in `entries` refers
+   * to, unless a capture not yet committed still needs them.
+   */
+  private async removeUnreferenced(
+    entries: JournalEntry[],
+    candidates: JournalEntry[],
+  ): Promise<void> {
+    const referenced = new Set(entries.map(({ hash }) => hash));
+    for (const { hash } of candidates) {
+      if (hash && !referenced.has(hash) && !this.uncommitted.has(hash)) {
+        await this.objects.remove(hash);
+      }
+    }
+  }
+
+  private async load(): Promise<JournalEntry[]> {
+    if (!this.entries) {
+      try {
+        this.entries = JSON.parse(
+          await readFile(join(this.journalDir, "index.json"), "utf-8"),
+        ) as JournalEntry[];
+      } catch {
+        this.entries = [];
+      }
+    }
+    return this.entries;
+  }
+
+  private async save(entries: JournalEntry[]): Promise<void> {
+    const indexPath = join(this.journalDir, "index.json");
+    await mkdir(this.journalDir, { recursive: true });
+    await writeFile(`${indexPath}.tmp`, JSON.stringify(entries));
+    await rename(`${indexPath}.tmp`, indexPath);
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "bun:test";
+import { PassThrough } from "node:stream";
+import { setImmediate } from "node:timers/promises";
+import { PtyControlChannel } from "./control.ts";
+
+function createChannel(timeoutMs?: number) {
+  const requests = new PassThrough();
+  const replies = new PassThrough();
+  const channel = new PtyControlChannel(requests, replies, { timeoutMs });
+  const sent: Record<string, unknown>[] = [];
+  requests.setEncoding("utf-8");
+  requests.on("data", (line: string) => sent.push(JSON.parse(line)));
+  return { channel, replies, sent };
+}
+
+describe("PtyControlChannel", () => {
+  it("should resolve requests with the status the wrapper replies", async () => {
+    const { channel, replies, sent } = createChannel();
+    const resize = channel.send({ type: "resize", cols: 120, rows: 40 });
+    const status = channel.send({ type: "status" });
+    await setImmediate();
+    expect(sent).toEqual([
+      { id: 1, type: "resize", cols: 120, rows: 40 },
+      { id: 2, type: "status" },
+    ]);
+
+    // Replies may arrive out of order and split across chunks
+    replies.write('{"id":2,"ok":true,"status":{"pid":7,"cols":120,"rows":40}}\n{"id":1,');
+    replies.write('"ok":false,"error":"Invalid terminal size"}\n');
+    expect(await status).toEqual({ pid: 7, cols: 120, rows: 40 });
+    await expect(resize).rejects.toThrow("Invalid terminal size");
+  });
+
+  it("should send signals for the program in the pty", async () => {
+    const { channel, replies, sent } = createChannel();
+    const signal = channel.send({ type: "signal", signal: "SIGINT" });
+    await setImmediate();
+    expect(sent).toEqual([{ id: 1, type: "signal", signal: "SIGINT" }]);
+
+    replies.write('{"id":1,"ok":true,"status":{"pid":7,"cols":80,"rows":24}}\n');
+    expect(await signal).toEqual({ pid: 7, cols: 80, rows: 24 });
+  });
+
+  it("should fail requests without a reply", async () => {
+    const { channel } = createChannel(10);
+    await expect(channel.send({ type: "status" })).rejects.toThrow("No reply to status request");
+  });
+
+  it("should fail pending and later requests once closed", async () => {
+    const { channel, replies } = createChannel();
+    const pending = channel.send({ type: "signal", signal: "SIGINT" });
+    replies.destroy();
+    await expect(pending).rejects.toThrow("Control channel closed");
+    await expect(channel.send({ type: "status" })).rejects.toThrow("Control channel closed");
+  });
+});
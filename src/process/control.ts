@@ -0,0 +1,119 @@
+import type { Readable, Writable } from "node:stream";
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+/**
+ * Requests to the pty-wrapper, mirrored in pty-wrapper/src/types.ts.
+ */
+export type ControlRequest =
+  | { type: "resize"; cols: number; rows: number }
+  | { type: "signal"; signal: string }
+  | { type: "status" };
+
+/** The pty as the wrapper reports it after handling a request */
+export interface PtyStatus {
+  /** Process id of the program running in the pty */
+  pid: number;
+  cols: number;
+  rows: number;
+}
+
+interface ControlReply {
+  id: number;
+  ok: boolean;
+  error?: string;
+  status?: PtyStatus;
+}
+
+interface PendingRequest {
+  resolve: (status: PtyStatus) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Talks to a pty-wrapper over its control pipes, apart from the terminal data
+ * on stdin and stdout. Requests and replies are JSON objects, one per line, and
+ * every request is acknowledged with the status of the pty once it is applied.
+ */
+export class PtyControlChannel {
+  private readonly requests: Writable;
+  private readonly timeoutMs: number;
+  private readonly pending: Map<number, PendingRequest>;
+  private nextId: number;
+  private buffered: string;
+  private closed: boolean;
+
+  constructor(requests: Writable, replies: Readable, options: { timeoutMs?: number } = {}) {
+    this.requests = requests;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.pending = new Map();
+    this.nextId = 1;
+    this.buffered = "";
+    this.closed = false;
+
+    replies.setEncoding("utf-8");
+    replies.on("data", (chunk: string) => this.receive(chunk));
+    replies.on("close", () => this.close("Control channel closed"));
+    // A wrapper that exits closes the pipes, the exit handler reports that
+    requests.on("error", () => this.close("Control channel closed"));
+  }
+
+  send(request: ControlRequest): Promise<PtyStatus> {
+    if (this.closed) {
+      return Promise.reject(new Error("Control channel closed"));
+    }
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`No reply to ${request.type} request within ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+      this.requests.write(`${JSON.stringify({ id, ...request })}\n`);
+    });
+  }
+
+  /**
+   * Fails all requests still waiting for a reply.
+   */
+  close(reason: string): void {
+    this.closed = true;
+    for (const [id, request] of this.pending) {
+      clearTimeout(request.timer);
+      request.reject(new Error(reason));
+      this.pending.delete(id);
+    }
+  }
+
+  private receive(chunk: string): void {
+    const lines = (this.buffered + chunk).split("\n");
+    this.buffered = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.trim()) {
+        this.settle(line);
+      }
+    }
+  }
+
+  private settle(line: string): void {
+    let reply: ControlReply;
+    try {
+      reply = JSON.parse(line) as ControlReply;
+    } catch {
+      console.error("Invalid reply from pty-wrapper:", line);
+      return;
+    }
+    const request = this.pending.get(reply.id);
+    if (!request) {
+      return;
+    }
+    clearTimeout(request.timer);
+    this.pending.delete(reply.id);
+    if (reply.ok && reply.status) {
+      request.resolve(reply.status);
+    } else {
+      request.reject(new Error(reply.error ?? "Request failed"));
+    }
+  }
+}
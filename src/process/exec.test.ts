@@ -0,0 +1,59 @@
+import { describe, expect, it } from "bun:test";
+import { tmpdir } from "node:os";
+import { execCommand } from "./exec.ts";
+
+const cwd = tmpdir();
+
+describe("execCommand", () => {
+  it("should return stdout, stderr and the exit code separately", async () => {
+    const result = await execCommand("sh", ["-c", "echo out; echo err >&2; exit 3"], { cwd });
+    expect(result).toMatchObject({
+      stdout: "out\n",
+      stderr: "err\n",
+      exitCode: 3,
+      signal: null,
+      timedOut: false,
+      truncated: false,
+    });
+    expect(result.duration).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should pass input and environment", async () => {
+    const result = await execCommand("sh", ["-c", 'read line; echo "$line $greeting"'], {
+      cwd,
+      env: { ...process.env, greeting: "world" },
+      input: "hello\n",
+    });
+    expect(result.stdout).toBe("hello world\n");
+  });
+
+  it("should kill commands that run too long", async () => {
+    const result = await execCommand("sleep", ["10"], { cwd, timeout: 50 });
+    expect(result).toMatchObject({ exitCode: null, signal: "SIGTERM", timedOut: true });
+  });
+
+  it("should kill what the command started when it runs too long", async () => {
+    const startedAt = Date.now();
+    const result = await execCommand("sh", ["-c", "sleep 8; echo done"], { cwd, timeout: 500 });
+    expect(result).toMatchObject({ stdout: "", timedOut: true });
+    expect(Date.now() - startedAt).toBeLessThan(3000);
+  });
+
+  it("should not wait for background children holding the output", async () => {
+    const startedAt = Date.now();
+    const result = await execCommand("sh", ["-c", "sleep 8 & echo started"], { cwd, timeout: 500 });
+    expect(result).toMatchObject({ stdout: "started\n", exitCode: 0, timedOut: true });
+    expect(Date.now() - startedAt).toBeLessThan(3000);
+  });
+
+  it("should cap the output and stop the command", async () => {
+    const result = await execCommand("yes", [], { cwd, maxOutputSize: 1000 });
+    expect(result.stdout).toHaveLength(1000);
+    expect(result.truncated).toBe(true);
+    expect(result.signal).not.toBeNull();
+  });
+
+  it("should reject commands that cannot be started", async () => {
+    await expect(execCommand("does-not-exist", [], { cwd })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,130 @@
+import { spawn } from "node:child_process";
+import type { ExecResponse } from "../../protocol/src/index.ts";
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_OUTPUT_SIZE = 1024 * 1024;
+// Time a process gets to exit after SIGTERM before it is killed
+const KILL_GRACE_MS = 2000;
+
+export interface ExecOptions {
+  cwd: string;
+  env?: Record<string, string | undefined>;
+  timeout?: number;
+  /** Bytes kept per stream, the process is killed once it writes more */
+  maxOutputSize?: number;
+  /** Written to stdin, which is closed right away either way */
+  input?: string;
+}
+
+/**
+ * Sends a signal to every process in a group. The group may be gone already.
+ */
+function signalGroup(pgid: number, signal: NodeJS.Signals): void {
+  try {
+    process.kill(-pgid, signal);
+  } catch {
+    // Nothing left to signal
+  }
+}
+
+/**
+ * Runs a command without a terminal and resolves once it has exited, with its
+ * output as separate streams. Rejects only when the command cannot be started.
+ * On a timeout or too much output, everything the command started is killed
+ * along with it.
+ */
+export function execCommand(
+  command: string,
+  args: string[],
+  options: ExecOptions,
+): Promise<ExecResponse> {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT_MS;
+  const maxOutputSize = options.maxOutputSize ?? DEFAULT_MAX_OUTPUT_SIZE;
+  const startedAt = performance.now();
+
+  // In its own process group, so that its children can be killed with it
+  const child = spawn(command, args, {
+    cwd: options.cwd,
+    env: options.env,
+    stdio: ["pipe", "pipe", "pipe"],
+    detached: true,
+  });
+  const output = { stdout: [] as Buffer[], stderr: [] as Buffer[] };
+  const size = { stdout: 0, stderr: 0 };
+  let timedOut = false;
+  let truncated = false;
+  let killTimer: ReturnType<typeof setTimeout> | undefined;
+  let exitStatus: Pick<ExecResponse, "exitCode" | "signal"> | undefined;
+  let settle: (() => void) | undefined;
+
+  const terminate = () => {
+    const { pid } = child;
+    if (killTimer || pid === undefined) {
+      return;
+    }
+    signalGroup(pid, "SIGTERM");
+    killTimer = setTimeout(() => signalGroup(pid, "SIGKILL"), KILL_GRACE_MS);
+    killTimer.unref();
+    // Children that outlive the command may keep its output open, it is not waited for
+    if (exitStatus) {
+      settle?.();
+    }
+  };
+
+  for (const stream of ["stdout", "stderr"] as const) {
+    child[stream].on("data", (chunk: Buffer) => {
+      const room = maxOutputSize - size[stream];
+      if (chunk.length > room) {
+        truncated = true;
+        terminate();
+      }
+      if (room > 0) {
+        const kept = chunk.subarray(0, room);
+        output[stream].push(kept);
+        size[stream] += kept.length;
+      }
+    });
+  }
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    terminate();
+  }, timeout);
+
+  // A process that does not read its input must not fail the exec
+  child.stdin.on("error", () => undefined);
+  child.stdin.end(options.input);
+
+  return new Promise((resolve, reject) => {
+    settle = () => {
+      clearTimeout(timer);
+      settle = undefined;
+      resolve({
+        stdout: Buffer.concat(output.stdout).toString("utf-8"),
+        stderr: Buffer.concat(output.stderr).toString("utf-8"),
+        exitCode: exitStatus?.exitCode ?? null,
+        signal: exitStatus?.signal ?? null,
+        duration: Math.round(performance.now() - startedAt),
+        timedOut,
+        truncated,
+      });
+    };
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      clearTimeout(killTimer);
+      settle = undefined;
+      reject(error);
+    });
+    child.on("exit", (exitCode, signal) => {
+      exitStatus = { exitCode, signal };
+      if (killTimer) {
+        settle?.();
+      }
+    });
+    // Unlike exit, close waits for the last output
+    child.on("close", () => {
+      clearTimeout(killTimer);
+      settle?.();
+    });
+  });
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "bun:test";
+import { spawn } from "node:child_process";
+import { type SpawnedProcess, listSpawnedProcesses, recordExit } from "./info.ts";
+
+function spawned(command: string): SpawnedProcess {
+  return {
+    command,
+    args: [],
+    cwd: "",
+    startedAt: 1,
+    status: "running",
+    terminal: { cols: 80, rows: 24 },
+  };
+}
+
+describe("listSpawnedProcesses", () => {
+  it("should list running processes with their clients", () => {
+    const processes = new Map([[10, spawned("npm")]]);
+    expect(listSpawnedProcesses(processes, () => 2)).toEqual([
+      { pid: 10, ...spawned("npm"), clients: 2 },
+    ]);
+  });
+
+  it("should list the exit code of an exited process", () => {
+    const processes = new Map([[10, spawned("npm")]]);
+    recordExit(processes.get(10) as SpawnedProcess, 1, null);
+
+    const [listed] = listSpawnedProcesses(processes, () => 0);
+    expect(listed).toMatchObject({ status: "exited", exitCode: 1 });
+    expect(listed.signal).toBeUndefined();
+  });
+
+  it("should list the signal that killed a process", async () => {
+    const child = spawn("sleep", ["10"]);
+    const processes = new Map([[child.pid as number, spawned("sleep")]]);
+    const exited = new Promise<void>((resolve) => {
+      child.on("exit", (code, signal) => {
+        recordExit(processes.get(child.pid as number) as SpawnedProcess, code, signal);
+        resolve();
+      });
+    });
+    child.kill("SIGTERM");
+    await exited;
+
+    const [listed] = listSpawnedProcesses(processes, () => 0);
+    expect(listed).toMatchObject({ status: "exited", signal: "SIGTERM" });
+    expect(listed.exitCode).toBeUndefined();
+  });
+});
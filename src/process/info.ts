@@ -0,0 +1,28 @@
+import type { ProcessInfo } from "../../protocol/src/index.ts";
+
+/** What is known about a spawned process, apart from its pid and connections */
+export type SpawnedProcess = Omit<ProcessInfo, "pid" | "clients">;
+
+/**
+ * Records how a process ended: with an exit code, or killed by a signal.
+ */
+export function recordExit(
+  spawned: SpawnedProcess,
+  code: number | null,
+  signal: NodeJS.Signals | null,
+): void {
+  spawned.status = "exited";
+  spawned.exitCode = code ?? undefined;
+  spawned.signal = signal ?? undefined;
+}
+
+/**
+ * Lists spawned processes in the order they were started, with the number of
+ * connections receiving their output.
+ */
+export function listSpawnedProcesses(
+  spawned: Map<number, SpawnedProcess>,
+  clients: (pid: number) => number,
+): ProcessInfo[] {
+  return [...spawned].map(([pid, info]) => ({ pid, ...info, clients: clients(pid) }));
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "bun:test";
+import { spawn } from "node:child_process";
+import { setTimeout as sleep } from "node:timers/promises";
+import { collectProcessTree, killProcessTree, parseProcStat } from "./kill.ts";
+
+describe("parseProcStat", () => {
+  it("should count fields from the end of the command name", () => {
+    const stat = "42 (node (pty) x) S 7 42 42 0 -1 4194304 100 0 0 0 150 25 0 0 20 0 1";
+    expect(parseProcStat(stat)).toEqual({ pid: 42, ppid: 7, pgrp: 42, state: "S", cpuTime: 1750 });
+  });
+});
+
+describe("collectProcessTree", () => {
+  const table = [
+    { pid: 1, ppid: 0, pgrp: 1, state: "S", cpuTime: 0 },
+    { pid: 10, ppid: 1, pgrp: 1, state: "S", cpuTime: 0 },
+    { pid: 11, ppid: 10, pgrp: 1, state: "S", cpuTime: 0 },
+    { pid: 12, ppid: 11, pgrp: 12, state: "S", cpuTime: 0 },
+    { pid: 13, ppid: 12, pgrp: 12, state: "S", cpuTime: 0 },
+    // Orphaned worker, reparented to init but still in the dev server's group
+    { pid: 14, ppid: 1, pgrp: 12, state: "S", cpuTime: 0 },
+    { pid: 20, ppid: 1, pgrp: 20, state: "S", cpuTime: 0 },
+  ];
+
+  it("should include descendants and their process groups", () => {
+    expect(collectProcessTree(table, 10, 1)).toEqual([10, 11, 12, 13, 14]);
+  });
+});
+
+describe("killProcessTree", () => {
+  async function spawnTree(script: string): Promise<number> {
+    const child = spawn("sh", ["-c", script], { stdio: "ignore" });
+    // Gives sh time to start its children
+    await sleep(200);
+    return child.pid as number;
+  }
+
+  it("should signal the process and its children", async () => {
+    const pid = await spawnTree("sleep 30 & sleep 30 & wait");
+    const result = await killProcessTree(pid, { graceful: true, gracePeriod: 2000 });
+
+    expect(result.pids).toHaveLength(3);
+    expect(result.pids.at(-1)).toBe(pid);
+    expect(result.terminated.toSorted()).toEqual(result.pids.toSorted());
+    expect(result.escalated).toEqual([]);
+  });
+
+  it("should report processes that exit shortly after the signal", async () => {
+    const pid = await spawnTree("sleep 30 & wait");
+    const result = await killProcessTree(pid);
+
+    expect(result.pids).toHaveLength(2);
+    expect(result.terminated.toSorted()).toEqual(result.pids.toSorted());
+  });
+
+  it("should escalate to SIGKILL after the grace period", async () => {
+    // Ignored signals stay ignored in children, so sleep outlives SIGTERM too
+    const pid = await spawnTree("trap '' TERM; sleep 30 & wait");
+    const result = await killProcessTree(pid, { graceful: true, gracePeriod: 200 });
+
+    expect(result.escalated.toSorted()).toEqual(result.pids.toSorted());
+    expect(result.terminated.toSorted()).toEqual(result.pids.toSorted());
+  });
+
+  it("should reject unknown signals", async () => {
+    await expect(killProcessTree(process.pid, { signal: "SIGNOPE" })).rejects.toThrow(
+      "Unknown signal",
+    );
+  });
+});
@@ -0,0 +1,168 @@
+import { readFile, readdir } from "node:fs/promises";
+import { constants } from "node:os";
+import { setTimeout as sleep } from "node:timers/promises";
+import type { KillResponse } from "../../protocol/src/index.ts";
+import { OperationError } from "../errors.ts";
+
+const DEFAULT_GRACE_PERIOD_MS = 5000;
+const POLL_INTERVAL_MS = 100;
+// SIGKILL cannot be caught, but delivering it still takes a moment
+const KILL_WAIT_MS = 1000;
+// Without a grace period, how long to wait before reporting what has exited
+const SIGNAL_WAIT_MS = 500;
+const PID_DIRECTORY = /^\d+$/;
+// /proc reports CPU time in USER_HZ ticks, fixed at 100 per second for user space
+const MS_PER_TICK = 10;
+
+export interface ProcessEntry {
+  pid: number;
+  ppid: number;
+  pgrp: number;
+  /** Single letter state, "Z" for zombies */
+  state: string;
+  /** User and system CPU time in milliseconds */
+  cpuTime: number;
+}
+
+export interface KillOptions {
+  /** Signal name, SIGTERM by default */
+  signal?: string;
+  /** Send SIGKILL to processes still running after the grace period */
+  graceful?: boolean;
+  gracePeriod?: number;
+}
+
+/**
+ * Parses /proc/<pid>/stat. The command name is in parentheses and may itself
+ * contain spaces and parentheses, so fields are counted from the last ")".
+ */
+export function parseProcStat(stat: string): ProcessEntry {
+  const fields = stat.slice(stat.lastIndexOf(")") + 2).split(" ");
+  return {
+    pid: Number.parseInt(stat, 10),
+    ppid: Number(fields[1]),
+    pgrp: Number(fields[2]),
+    state: fields[0],
+    cpuTime: (Number(fields[11]) + Number(fields[12])) * MS_PER_TICK,
+  };
+}
+
+export async function readProcessTable(): Promise<ProcessEntry[]> {
+  const names = await readdir("/proc").catch(() => []);
+  const entries = await Promise.all(
+    names
+      .filter((name) => PID_DIRECTORY.test(name))
+      .map((name) => readFile(`/proc/${name}/stat`, "utf-8").then(parseProcStat, () => undefined)),
+  );
+  return entries.filter((entry) => entry !== undefined);
+}
+
+/**
+ * A process and everything it started: its descendants, and the other members
+ * of their process groups, which catches children whose parent already exited.
+ * The group of the agent itself is left out, spawned processes start in it.
+ */
+export function collectProcessTree(
+  table: ProcessEntry[],
+  rootPid: number,
+  protectedGroup: number,
+): number[] {
+  const pids = [rootPid];
+  // Iterates the pids added on the way as well
+  for (const parent of pids) {
+    for (const entry of table) {
+      if (entry.ppid === parent && !pids.includes(entry.pid)) {
+        pids.push(entry.pid);
+      }
+    }
+  }
+
+  const groups = new Set(
+    table
+      .filter((entry) => pids.includes(entry.pid) && entry.pgrp !== protectedGroup)
+      .map((entry) => entry.pgrp),
+  );
+  for (const entry of table) {
+    if (groups.has(entry.pgrp) && !pids.includes(entry.pid)) {
+      pids.push(entry.pid);
+    }
+  }
+  return pids;
+}
+
+/**
+ * The tree of a process spawned by the agent, or just the process without /proc.
+ */
+export function spawnedProcessTree(table: ProcessEntry[], pid: number): number[] {
+  const agentGroup = table.find((entry) => entry.pid === process.pid)?.pgrp ?? -1;
+  return table.length > 0 ? collectProcessTree(table, pid, agentGroup) : [pid];
+}
+
+function assertSignal(signal: string): asserts signal is NodeJS.Signals {
+  if (!(signal in constants.signals)) {
+    throw new OperationError("INVALID_SIGNAL", `Unknown signal: ${signal}`);
+  }
+}
+
+function sendSignal(pid: number, signal: NodeJS.Signals): boolean {
+  try {
+    process.kill(pid, signal);
+    return true;
+  } catch {
+    // Already gone
+    return false;
+  }
+}
+
+async function runningPids(pids: number[]): Promise<number[]> {
+  const table = await readProcessTable();
+  return pids.filter((pid) => table.some((entry) => entry.pid === pid && entry.state !== "Z"));
+}
+
+/**
+ * Waits up to timeout for processes to exit, returns those still running.
+ */
+async function waitForExit(pids: number[], timeout: number): Promise<number[]> {
+  const deadline = Date.now() + timeout;
+  let running = await runningPids(pids);
+  while (running.length > 0 && Date.now() < deadline) {
+    await sleep(POLL_INTERVAL_MS);
+    running = await runningPids(running);
+  }
+  return running;
+}
+
+/**
+ * Signals a process tree, descendants before their parents. In graceful mode it
+ * waits for the tree to exit and kills whatever is left after the grace period.
+ */
+export async function killProcessTree(
+  pid: number,
+  options: KillOptions = {},
+): Promise<KillResponse> {
+  const signal = options.signal ?? "SIGTERM";
+  assertSignal(signal);
+
+  const tree = spawnedProcessTree(await readProcessTable(), pid);
+  const pids = tree.toReversed().filter((target) => sendSignal(target, signal));
+
+  if (!options.graceful) {
+    const running = await waitForExit(pids, SIGNAL_WAIT_MS);
+    return {
+      signal,
+      pids,
+      terminated: pids.filter((target) => !running.includes(target)),
+      escalated: [],
+    };
+  }
+
+  let running = await waitForExit(pids, options.gracePeriod ?? DEFAULT_GRACE_PERIOD_MS);
+  const escalated = running.filter((target) => sendSignal(target, "SIGKILL"));
+  running = await waitForExit(running, KILL_WAIT_MS);
+  return {
+    signal,
+    pids,
+    terminated: pids.filter((target) => !running.includes(target)),
+    escalated,
+  };
+}
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { type ChildProcess, execFileSync, spawn } from "node:child_process";
+import { setTimeout as sleep } from "node:timers/promises";
+import { type LimitExceeded, ResourceMonitor, applyRlimits, measureProcessTree } from "./limits.ts";
+
+describe("applyRlimits", () => {
+  it("should leave commands without kernel limits alone", () => {
+    expect(applyRlimits("npm", ["test"], { maxWallTime: 1000, maxOutputSize: 1024 })).toEqual({
+      command: "npm",
+      args: ["test"],
+    });
+  });
+
+  it("should start the command with the open files limit", () => {
+    const { command, args } = applyRlimits("sh", ["-c", "ulimit -n"], { maxOpenFiles: 64 });
+    expect(execFileSync(command, args, { encoding: "utf-8" })).toBe("64\n");
+  });
+
+  it("should start the command with the CPU time limit", () => {
+    const { command, args } = applyRlimits("sh", ["-c", "ulimit -t"], { maxCpuTime: 1500 });
+    expect(execFileSync(command, args, { encoding: "utf-8" })).toBe("2\n");
+  });
+
+  it("should leave the address space of a memory limited runtime alone", () => {
+    const { command, args } = applyRlimits(process.execPath, ["-e", "console.log(1)"], {
+      maxMemory: 512 * 1024 * 1024,
+    });
+    expect(execFileSync(command, args, { encoding: "utf-8" })).toBe("1\n");
+  });
+
+  it("should reject limits the kernel cannot enforce", () => {
+    expect(() => applyRlimits("npm", [], { maxCpuTime: 0 })).toThrow("Invalid CPU time limit: 0");
+    expect(() => applyRlimits("npm", [], { maxOpenFiles: 1.5 })).toThrow(
+      "Invalid open files limit: 1.5",
+    );
+  });
+});
+
+describe("ResourceMonitor", () => {
+  let child: ChildProcess | undefined;
+  let monitor: ResourceMonitor | undefined;
+
+  afterEach(() => {
+    monitor?.stop();
+    child?.kill("SIGKILL");
+  });
+
+  function watch(script: string, limits: ConstructorParameters<typeof ResourceMonitor>[1]) {
+    child = spawn("sh", ["-c", script], { stdio: "ignore" });
+    return new Promise<LimitExceeded>((resolve) => {
+      monitor = new ResourceMonitor(child?.pid as number, limits, resolve);
+    });
+  }
+
+  it("should measure the process tree", async () => {
+    const usage = await measureProcessTree(process.pid);
+    expect(usage.memory).toBeGreaterThan(0);
+    expect(usage.cpuTime).toBeGreaterThan(0);
+  });
+
+  it("should leave out the root process when asked to", async () => {
+    child = spawn("sh", ["-c", "sleep 10 & wait"], { stdio: "ignore" });
+    await sleep(200);
+    const tree = await measureProcessTree(child.pid as number);
+    const descendants = await measureProcessTree(child.pid as number, { excludeRoot: true });
+
+    expect(descendants.memory).toBeGreaterThan(0);
+    expect(descendants.memory).toBeLessThan(tree.memory);
+  });
+
+  it("should report the wall time limit", async () => {
+    expect(await watch("sleep 10", { maxWallTime: 50 })).toEqual({
+      limit: "wallTime",
+      value: 50,
+      max: 50,
+    });
+  });
+
+  it("should report CPU time used by the tree", async () => {
+    const exceeded = await watch("while :; do :; done", { maxCpuTime: 100 });
+    expect(exceeded.limit).toBe("cpuTime");
+    expect(exceeded.value).toBeGreaterThan(100);
+  });
+
+  it("should report output beyond the limit once", () => {
+    const reported: LimitExceeded[] = [];
+    monitor = new ResourceMonitor(process.pid, { maxOutputSize: 10 }, (exceeded) =>
+      reported.push(exceeded),
+    );
+    monitor.addOutput(8);
+    monitor.addOutput(8);
+    monitor.addOutput(8);
+    expect(reported).toEqual([{ limit: "outputSize", value: 16, max: 10 }]);
+  });
+});
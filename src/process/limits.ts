@@ -0,0 +1,167 @@
+import { readFile } from "node:fs/promises";
+import type { ProcessLimitExceededEvent, ResourceLimits } from "../../protocol/src/index.ts";
+import { readProcessTable, spawnedProcessTree } from "./kill.ts";
+
+const POLL_INTERVAL_MS = 1000;
+const RESIDENT_MEMORY = /^VmRSS:\s+(\d+) kB$/m;
+
+export type LimitExceeded = Omit<ProcessLimitExceededEvent, "pid">;
+
+interface KernelLimit {
+  key: "maxOpenFiles" | "maxCpuTime";
+  name: string;
+  /** ulimit option of the limit */
+  option: string;
+  /** The limit in the unit ulimit takes */
+  value: (limit: number) => number;
+}
+
+const KERNEL_LIMITS: KernelLimit[] = [
+  { key: "maxOpenFiles", name: "open files", option: "-n", value: (limit) => limit },
+  // Whole seconds, the process gets SIGXCPU and later SIGKILL beyond it
+  { key: "maxCpuTime", name: "CPU time", option: "-t", value: (limit) => Math.ceil(limit / 1000) },
+];
+
+/**
+ * Wraps a command so it starts with the limits the kernel enforces per process:
+ * open files and CPU time. They hold for each process of the tree on its own,
+ * the totals of the tree are watched by ResourceMonitor. Memory is left to
+ * ResourceMonitor alone: the address space limit of ulimit -v counts reserved
+ * virtual memory, which keeps runtimes like V8 from starting at all.
+ */
+export function applyRlimits(
+  command: string,
+  args: string[],
+  limits: ResourceLimits = {},
+): { command: string; args: string[] } {
+  const ulimits: string[] = [];
+  for (const { key, name, option, value } of KERNEL_LIMITS) {
+    const limit = limits[key];
+    if (limit === undefined) {
+      continue;
+    }
+    const converted = value(limit);
+    if (!(Number.isSafeInteger(converted) && converted > 0)) {
+      throw new Error(`Invalid ${name} limit: ${limit}`);
+    }
+    ulimits.push(`ulimit ${option} ${converted}`);
+  }
+  if (ulimits.length === 0) {
+    return { command, args };
+  }
+  return {
+    command: "sh",
+    args: ["-c", `${ulimits.join(" && ")} && exec "$0" "$@"`, command, ...args],
+  };
+}
+
+async function residentMemory(pid: number): Promise<number> {
+  try {
+    const status = await readFile(`/proc/${pid}/status`, "utf-8");
+    return Number(RESIDENT_MEMORY.exec(status)?.[1] ?? 0) * 1024;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Memory and CPU time used by a process tree, as far as /proc tells. Resident
+ * memory of pages shared between processes is counted for each of them.
+ */
+export async function measureProcessTree(
+  pid: number,
+  options: { excludeRoot?: boolean } = {},
+): Promise<{ memory: number; cpuTime: number }> {
+  const table = await readProcessTable();
+  const pids = new Set(spawnedProcessTree(table, pid));
+  if (options.excludeRoot) {
+    pids.delete(pid);
+  }
+  const members = table.filter((entry) => pids.has(entry.pid));
+  const memory = await Promise.all(members.map((entry) => residentMemory(entry.pid)));
+  return {
+    memory: memory.reduce((total, bytes) => total + bytes, 0),
+    cpuTime: members.reduce((total, entry) => total + entry.cpuTime, 0),
+  };
+}
+
+/**
+ * Watches a spawned process tree for the limits it was started with and reports
+ * the first one it exceeds. Stopping the process is up to the caller.
+ * Memory and CPU time are sampled once per second, so they are approximate:
+ * a tree can go beyond them until the next sample. Only the CPU time of each
+ * single process is held to its limit by the kernel.
+ */
+export class ResourceMonitor {
+  private readonly pid: number;
+  private readonly limits: ResourceLimits;
+  private readonly onExceeded: (exceeded: LimitExceeded) => void;
+  /** Leave out the root process, e.g. the pty-wrapper running the command */
+  private readonly excludeRoot: boolean;
+  private timers: ReturnType<typeof setTimeout>[];
+  private outputSize: number;
+  private stopped: boolean;
+
+  constructor(
+    pid: number,
+    limits: ResourceLimits,
+    onExceeded: (exceeded: LimitExceeded) => void,
+    options: { excludeRoot?: boolean } = {},
+  ) {
+    this.pid = pid;
+    this.limits = limits;
+    this.onExceeded = onExceeded;
+    this.excludeRoot = options.excludeRoot ?? false;
+    this.timers = [];
+    this.outputSize = 0;
+    this.stopped = false;
+
+    const { maxWallTime, maxMemory, maxCpuTime } = limits;
+    if (maxWallTime !== undefined) {
+      const timer = setTimeout(
+        () => this.exceed({ limit: "wallTime", value: maxWallTime, max: maxWallTime }),
+        maxWallTime,
+      );
+      this.timers.push(timer);
+    }
+    if (maxMemory !== undefined || maxCpuTime !== undefined) {
+      this.timers.push(setInterval(() => this.poll(), POLL_INTERVAL_MS));
+    }
+  }
+
+  addOutput(bytes: number): void {
+    this.outputSize += bytes;
+    const max = this.limits.maxOutputSize;
+    if (max !== undefined && this.outputSize > max) {
+      this.exceed({ limit: "outputSize", value: this.outputSize, max });
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers = [];
+  }
+
+  private async poll(): Promise<void> {
+    const { memory, cpuTime } = await measureProcessTree(this.pid, {
+      excludeRoot: this.excludeRoot,
+    });
+    const { maxMemory, maxCpuTime } = this.limits;
+    if (maxMemory !== undefined && memory > maxMemory) {
+      this.exceed({ limit: "memory", value: memory, max: maxMemory });
+    } else if (maxCpuTime !== undefined && cpuTime > maxCpuTime) {
+      this.exceed({ limit: "cpuTime", value: cpuTime, max: maxCpuTime });
+    }
+  }
+
+  private exceed(exceeded: LimitExceeded): void {
+    if (this.stopped) {
+      return;
+    }
+    this.stop();
+    this.onExceeded(exceeded);
+  }
+}
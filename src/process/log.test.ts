@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdir, mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import type { ProcessLogEvent } from "../../protocol/src/index.ts";
+import { ProcessLog, ProcessLogStore } from "./log.ts";
+
+describe("ProcessLog", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "process-log-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should read byte ranges, line ranges and the last lines", async () => {
+    const log = new ProcessLog(join(dir, "1"));
+    await log.append(Buffer.from("one\ntwo\n"));
+    await log.append(Buffer.from("three\nfour\n"));
+
+    expect(await log.read()).toMatchObject({ content: "one\ntwo\nthree\nfour\n", size: 19 });
+    expect(await log.read({ start: 4, end: 7 })).toMatchObject({
+      content: "two",
+      start: 4,
+      end: 7,
+    });
+    expect((await log.read({ startLine: 2, endLine: 3 })).content).toBe("two\nthree\n");
+    expect(await log.read({ tail: 2 })).toMatchObject({ content: "three\nfour\n", start: 8 });
+    expect((await log.read({ tail: 10 })).content).toBe("one\ntwo\nthree\nfour\n");
+  });
+
+  it("should drop the oldest files and keep offsets and line numbers", async () => {
+    const log = new ProcessLog(join(dir, "1"), { maxFileSize: 8, maxFiles: 2 });
+    for (const line of ["aaa\n", "bbb\n", "ccc\n", "ddd\n", "eee\n"]) {
+      await log.append(Buffer.from(line));
+    }
+
+    expect(await readdir(join(dir, "1"))).toHaveLength(2);
+    expect(await log.read()).toMatchObject({
+      content: "ccc\nddd\neee\n",
+      firstOffset: 8,
+      size: 20,
+    });
+    expect((await log.read({ startLine: 4, endLine: 4 })).content).toBe("ddd\n");
+    expect(await log.read({ start: 0, end: 12 })).toMatchObject({ content: "ccc\n", start: 8 });
+  });
+
+  it("should send followers the output after an offset until the log is closed", async () => {
+    const log = new ProcessLog(join(dir, "1"));
+    await log.append(Buffer.from("hello "));
+    const events: Omit<ProcessLogEvent, "pid">[] = [];
+    const follower = {};
+
+    expect(await log.follow(follower, (chunk) => events.push(chunk), 2)).toBe(2);
+    await log.append(Buffer.from("world"));
+    await log.close();
+
+    expect(events).toEqual([
+      { offset: 2, data: "llo " },
+      { offset: 6, data: "world" },
+      { offset: 11, data: "", end: true },
+    ]);
+  });
+
+  it("should follow from the end when the offset is beyond it", async () => {
+    const log = new ProcessLog(join(dir, "1"));
+    await log.append(Buffer.from("hello "));
+    const events: Omit<ProcessLogEvent, "pid">[] = [];
+
+    expect(await log.follow({}, (chunk) => events.push(chunk), 100)).toBe(6);
+    await log.append(Buffer.from("world"));
+    await log.close();
+
+    expect(events).toEqual([
+      { offset: 6, data: "world" },
+      { offset: 11, data: "", end: true },
+    ]);
+  });
+
+  it("should keep characters split across chunks together", async () => {
+    const log = new ProcessLog(join(dir, "1"));
+    const events: Omit<ProcessLogEvent, "pid">[] = [];
+    await log.follow({}, (chunk) => events.push(chunk));
+
+    // "a€b" with the euro sign split after its second byte, then a dangling lead byte
+    await log.append(Buffer.from([0x61, 0xe2, 0x82]));
+    await log.append(Buffer.from([0xac, 0x62, 0xc3]));
+    await log.close();
+
+    expect(events).toEqual([
+      { offset: 0, data: "a" },
+      { offset: 1, data: "€b" },
+      { offset: 5, data: "\ufffd", end: true },
+    ]);
+  });
+
+  it("should stop sending output to followers that unfollowed", async () => {
+    const log = new ProcessLog(join(dir, "1"));
+    const events: Omit<ProcessLogEvent, "pid">[] = [];
+    const follower = {};
+    await log.follow(follower, (chunk) => events.push(chunk));
+
+    expect(log.unfollow(follower)).toBe(true);
+    await log.append(Buffer.from("ignored"));
+    expect(events).toEqual([]);
+  });
+});
+
+describe("ProcessLogStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "process-log-store-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should remove logs of earlier runs on start", async () => {
+    await mkdir(join(dir, "process-logs", "1", "42-1"), { recursive: true });
+    const store = new ProcessLogStore(dir);
+    await store.create(42).append(Buffer.from("output"));
+
+    await store.start();
+    expect(await readdir(join(dir, "process-logs"))).toHaveLength(1);
+    expect((await store.get(42)?.read())?.content).toBe("output");
+  });
+
+  it("should replace the retained log of a reused pid", async () => {
+    const store = new ProcessLogStore(dir);
+    await store.create(42).append(Buffer.from("first"));
+    // Log directories are named by pid and creation time
+    await sleep(5);
+
+    await store.create(42).append(Buffer.from("second"));
+    const [run] = await readdir(join(dir, "process-logs"));
+    expect(await readdir(join(dir, "process-logs", run))).toHaveLength(1);
+    expect((await store.get(42)?.read())?.content).toBe("second");
+  });
+
+  it("should remove a log once its retention time has passed", async () => {
+    const store = new ProcessLogStore(dir, { retention: 10 });
+    await store.create(42).append(Buffer.from("output"));
+
+    await store.close(42);
+    expect(store.get(42)).toBeDefined();
+    await sleep(50);
+    expect(store.get(42)).toBeUndefined();
+  });
+});
@@ -0,0 +1,320 @@
+import { appendFile, mkdir, readFile, readdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { StringDecoder } from "node:string_decoder";
+import type {
+  ProcessLogEvent,
+  ProcessLogRange,
+  ProcessLogResponse,
+} from "../../protocol/src/index.ts";
+import { TaskQueue } from "../filesystem/lock.ts";
+
+const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+const DEFAULT_RETENTION_MS = 60 * 60 * 1000;
+const LINE_FEED = 0x0a;
+
+export interface ProcessLogOptions {
+  /** Bytes per log file before a new one is started */
+  maxFileSize?: number;
+  /** Log files kept per process, the oldest is dropped first */
+  maxFiles?: number;
+}
+
+/** Receives appended output, and a chunk marked as the end once the log is closed */
+export type ProcessLogListener = (chunk: Omit<ProcessLogEvent, "pid">) => void;
+
+interface Follower {
+  listener: ProcessLogListener;
+  /** Keeps characters split across chunks together */
+  decoder: StringDecoder;
+  /** Offset of the next data sent */
+  offset: number;
+}
+
+interface LogSegment {
+  path: string;
+  /** Offset of the first byte in the whole output */
+  start: number;
+  size: number;
+  /** Line feeds before the segment */
+  linesBefore: number;
+  lines: number;
+}
+
+/**
+ * Offsets of the lines in buffer. A final line feed does not start another line.
+ */
+function lineStarts(buffer: Buffer): number[] {
+  const starts = buffer.length > 0 ? [0] : [];
+  for (
+    let index = buffer.indexOf(LINE_FEED);
+    index !== -1;
+    index = buffer.indexOf(LINE_FEED, index + 1)
+  ) {
+    if (index + 1 < buffer.length) {
+      starts.push(index + 1);
+    }
+  }
+  return starts;
+}
+
+function countLines(buffer: Buffer): number {
+  let lines = 0;
+  for (
+    let index = buffer.indexOf(LINE_FEED);
+    index !== -1;
+    index = buffer.indexOf(LINE_FEED, index + 1)
+  ) {
+    lines++;
+  }
+  return lines;
+}
+
+function sendChunk(follower: Follower, data: string): void {
+  if (data) {
+    follower.listener({ offset: follower.offset, data });
+    follower.offset += Buffer.byteLength(data);
+  }
+}
+
+/**
+ * Sends what is left of an incomplete character along with the end.
+ */
+function endFollower(follower: Follower): void {
+  follower.listener({ offset: follower.offset, data: follower.decoder.end(), end: true });
+}
+
+/**
+ * The output of one process, written to numbered files that are dropped oldest
+ * first. Offsets and line numbers count from the start of the whole output,
+ * so they stay valid after a rotation.
+ */
+export class ProcessLog {
+  private readonly dir: string;
+  private readonly maxFileSize: number;
+  private readonly maxFiles: number;
+  private readonly segments: LogSegment[];
+  private readonly followers: Map<object, Follower>;
+  private nextFile: number;
+  private closed: boolean;
+  // Appends, reads and subscriptions run in order, so followers miss nothing
+  private readonly queue: TaskQueue;
+
+  constructor(dir: string, options: ProcessLogOptions = {}) {
+    this.dir = dir;
+    this.maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+    this.maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+    this.segments = [];
+    this.followers = new Map();
+    this.nextFile = 0;
+    this.closed = false;
+    this.queue = new TaskQueue();
+  }
+
+  /** Bytes written so far */
+  get size(): number {
+    const last = this.segments.at(-1);
+    return last ? last.start + last.size : 0;
+  }
+
+  append(chunk: Buffer): Promise<void> {
+    return this.queue.exclusive(async () => {
+      const segment = await this.currentSegment(chunk.length);
+      await appendFile(segment.path, chunk);
+      segment.size += chunk.length;
+      segment.lines += countLines(chunk);
+
+      for (const follower of this.followers.values()) {
+        sendChunk(follower, follower.decoder.write(chunk));
+      }
+    });
+  }
+
+  /**
+   * Reads a byte range, a line range or the last lines of the output. Output
+   * that was rotated away is left out, the response starts after it.
+   */
+  read(range: ProcessLogRange = {}): Promise<Omit<ProcessLogResponse, "pid" | "running">> {
+    return this.queue.exclusive(async () => {
+      const firstOffset = this.segments[0]?.start ?? 0;
+      const content = await this.readRetained();
+      const [start, end] = this.selectRange(content, range);
+      return {
+        content: content.subarray(start, end).toString("utf-8"),
+        start: firstOffset + start,
+        end: firstOffset + end,
+        size: this.size,
+        firstOffset,
+      };
+    });
+  }
+
+  /**
+   * Sends the output from an offset on, the end by default, to a listener and
+   * then everything appended until the log is closed.
+   */
+  follow(subscriber: object, listener: ProcessLogListener, from?: number): Promise<number> {
+    return this.queue.exclusive(async () => {
+      const firstOffset = this.segments[0]?.start ?? 0;
+      const offset = Math.min(Math.max(from ?? this.size, firstOffset), this.size);
+      const backlog = (await this.readRetained()).subarray(offset - firstOffset);
+      const follower: Follower = { listener, decoder: new StringDecoder("utf-8"), offset };
+      sendChunk(follower, follower.decoder.write(backlog));
+      if (this.closed) {
+        endFollower(follower);
+      } else {
+        this.followers.set(subscriber, follower);
+      }
+      return offset;
+    });
+  }
+
+  unfollow(subscriber: object): boolean {
+    return this.followers.delete(subscriber);
+  }
+
+  close(): Promise<void> {
+    return this.queue.exclusive(() => {
+      this.closed = true;
+      for (const follower of this.followers.values()) {
+        endFollower(follower);
+      }
+      this.followers.clear();
+      return Promise.resolve();
+    });
+  }
+
+  remove(): Promise<void> {
+    return this.queue.exclusive(() => rm(this.dir, { recursive: true, force: true }));
+  }
+
+  private async currentSegment(incoming: number): Promise<LogSegment> {
+    const current = this.segments.at(-1);
+    if (current && (current.size === 0 || current.size + incoming <= this.maxFileSize)) {
+      return current;
+    }
+
+    await mkdir(this.dir, { recursive: true });
+    const segment: LogSegment = {
+      path: join(this.dir, `${this.nextFile++}.log`),
+      start: this.size,
+      size: 0,
+      linesBefore: current ? current.linesBefore + current.lines : 0,
+      lines: 0,
+    };
+    this.segments.push(segment);
+    while (this.segments.length > this.maxFiles) {
+      const dropped = this.segments.shift() as LogSegment;
+      await rm(dropped.path, { force: true });
+    }
+    return segment;
+  }
+
+  private async readRetained(): Promise<Buffer> {
+    const buffers = await Promise.all(
+      this.segments.map((segment) =>
+        // Sliced to the recorded size, an append may still be on its way
+        readFile(segment.path).then((buffer) => buffer.subarray(0, segment.size)),
+      ),
+    );
+    return Buffer.concat(buffers);
+  }
+
+  /**
+   * Start and end of the requested range within the retained output.
+   */
+  private selectRange(content: Buffer, range: ProcessLogRange): [number, number] {
+    const firstOffset = this.segments[0]?.start ?? 0;
+    if (range.tail === undefined && range.startLine === undefined && range.endLine === undefined) {
+      const start = Math.max((range.start ?? firstOffset) - firstOffset, 0);
+      const end = Math.min((range.end ?? this.size) - firstOffset, content.length);
+      return [Math.min(start, end), Math.max(end, start)];
+    }
+
+    const starts = lineStarts(content);
+    const firstLine = (this.segments[0]?.linesBefore ?? 0) + 1;
+    const first =
+      range.tail === undefined
+        ? Math.max((range.startLine ?? firstLine) - firstLine, 0)
+        : Math.max(starts.length - range.tail, 0);
+    const last =
+      range.tail === undefined && range.endLine !== undefined
+        ? Math.min(range.endLine - firstLine, starts.length - 1)
+        : starts.length - 1;
+    if (first > last) {
+      return [content.length, content.length];
+    }
+    return [starts[first], last + 1 < starts.length ? starts[last + 1] : content.length];
+  }
+}
+
+/**
+ * The process logs of one agent run, kept for a while after their process exits.
+ * Logs do not survive a restart: earlier runs belong to processes that are gone,
+ * so their logs are removed on start, however recent.
+ */
+export class ProcessLogStore {
+  private readonly root: string;
+  private readonly runDir: string;
+  private readonly retention: number;
+  private readonly options: ProcessLogOptions;
+  private readonly logs: Map<number, ProcessLog>;
+
+  constructor(dataDir: string, options: ProcessLogOptions & { retention?: number } = {}) {
+    const { retention, ...logOptions } = options;
+    this.root = join(dataDir, "process-logs");
+    this.runDir = join(this.root, String(Date.now()));
+    this.retention = retention ?? DEFAULT_RETENTION_MS;
+    this.options = logOptions;
+    this.logs = new Map();
+  }
+
+  async start(): Promise<void> {
+    const runs = await readdir(this.root).catch(() => []);
+    for (const run of runs) {
+      if (join(this.root, run) !== this.runDir) {
+        await rm(join(this.root, run), { recursive: true, force: true });
+      }
+    }
+  }
+
+  create(pid: number): ProcessLog {
+    // Pids are reused, a retained log of an earlier process goes first
+    const earlier = this.logs.get(pid);
+    earlier?.remove().catch((error) => {
+      console.error(`Failed to remove the earlier output log of process ${pid}:`, error);
+    });
+    const log = new ProcessLog(join(this.runDir, `${pid}-${Date.now()}`), this.options);
+    this.logs.set(pid, log);
+    return log;
+  }
+
+  get(pid: number): ProcessLog | undefined {
+    return this.logs.get(pid);
+  }
+
+  /**
+   * Ends the log of an exited process and removes it after the retention time.
+   */
+  async close(pid: number): Promise<void> {
+    const log = this.logs.get(pid);
+    if (!log) {
+      return;
+    }
+    await log.close();
+    setTimeout(() => {
+      if (this.logs.get(pid) === log) {
+        this.logs.delete(pid);
+        log.remove().catch((error) => {
+          console.error(`Failed to remove the output log of process ${pid}:`, error);
+        });
+      }
+    }, this.retention).unref();
+  }
+
+  unfollowAll(subscriber: object): void {
+    for (const log of this.logs.values()) {
+      log.unfollow(subscriber);
+    }
+  }
+}
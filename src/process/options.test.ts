@@ -0,0 +1,47 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { WorkspaceSandbox } from "../sandbox/sandbox.ts";
+import { resolveWorkingDirectory, terminalSize } from "./options.ts";
+
+describe("terminalSize", () => {
+  it("should default to 80x24", () => {
+    expect(terminalSize()).toEqual({ cols: 80, rows: 24 });
+  });
+
+  it("should reject sizes that are not positive integers", () => {
+    expect(terminalSize({ cols: 120, rows: 40 })).toEqual({ cols: 120, rows: 40 });
+    expect(() => terminalSize({ cols: 0, rows: 40 })).toThrow("Invalid terminal size");
+    expect(() => terminalSize({ cols: 80.5, rows: 40 })).toThrow("Invalid terminal size");
+  });
+});
+
+describe("resolveWorkingDirectory", () => {
+  let workdir: string;
+  let sandbox: WorkspaceSandbox;
+
+  beforeAll(async () => {
+    workdir = await mkdtemp(join(tmpdir(), "spawn-options-test-"));
+    await mkdir(join(workdir, "src"));
+    await mkdir(join(workdir, "secret"));
+    await writeFile(join(workdir, "package.json"), "{}");
+    sandbox = new WorkspaceSandbox(workdir, { hidden: ["secret"] });
+  });
+
+  afterAll(async () => {
+    await rm(workdir, { recursive: true, force: true });
+  });
+
+  it("should resolve directories inside the workspace", () => {
+    expect(resolveWorkingDirectory(sandbox)).toBe(workdir);
+    expect(resolveWorkingDirectory(sandbox, "src")).toBe(join(workdir, "src"));
+    expect(resolveWorkingDirectory(sandbox, "../..")).toBe(workdir);
+  });
+
+  it("should reject files, missing and hidden directories", () => {
+    expect(() => resolveWorkingDirectory(sandbox, "package.json")).toThrow("not a directory");
+    expect(() => resolveWorkingDirectory(sandbox, "missing")).toThrow("not a directory");
+    expect(() => resolveWorkingDirectory(sandbox, "secret")).toThrow("not accessible");
+  });
+});
@@ -0,0 +1,36 @@
+import { statSync } from "node:fs";
+import type { SpawnOptions } from "../../protocol/src/index.ts";
+import { OperationError } from "../errors.ts";
+import type { WorkspaceSandbox } from "../sandbox/sandbox.ts";
+
+export const DEFAULT_TERMINAL_SIZE = { cols: 80, rows: 24 };
+
+export interface TerminalSize {
+  cols: number;
+  rows: number;
+}
+
+/**
+ * The terminal size a process starts with, 80x24 unless the client asked otherwise.
+ */
+export function terminalSize(terminal?: SpawnOptions["terminal"]): TerminalSize {
+  if (!terminal) {
+    return { ...DEFAULT_TERMINAL_SIZE };
+  }
+  const { cols, rows } = terminal;
+  if (!(Number.isInteger(cols) && Number.isInteger(rows) && cols > 0 && rows > 0)) {
+    throw new OperationError("INVALID_TERMINAL_SIZE", `Invalid terminal size ${cols}x${rows}`);
+  }
+  return { cols, rows };
+}
+
+/**
+ * Resolves the working directory of a process, the workspace root by default.
+ */
+export function resolveWorkingDirectory(sandbox: WorkspaceSandbox, cwd = ""): string {
+  const fullPath = sandbox.resolve(cwd);
+  if (!statSync(fullPath, { throwIfNoEntry: false })?.isDirectory()) {
+    throw new OperationError("NOT_A_DIRECTORY", `${cwd} is not a directory`);
+  }
+  return fullPath;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "bun:test";
+import { existsSync } from "node:fs";
+import { setTimeout as sleep } from "node:timers/promises";
+import { type SpawnedProcess, listSpawnedProcesses, recordExit } from "./info.ts";
+import { killProcessTree } from "./kill.ts";
+import { ptyWrapperPath, spawnPty } from "./pty.ts";
+
+// Runs the built pty-wrapper, see pty-wrapper/README.md
+describe.skipIf(!existsSync(ptyWrapperPath()))("spawnPty", () => {
+  /**
+   * Starts a command the way the server does and lists it once it exited.
+   */
+  async function run(command: string, args: string[], stop?: (pid: number) => Promise<unknown>) {
+    const child = spawnPty(command, args, {
+      cwd: process.cwd(),
+      env: process.env,
+      terminal: { cols: 80, rows: 24 },
+    });
+    const pid = child.pid as number;
+    const processes = new Map<number, SpawnedProcess>([
+      [
+        pid,
+        {
+          command,
+          args,
+          cwd: "",
+          startedAt: Date.now(),
+          status: "running",
+          terminal: { cols: 80, rows: 24 },
+        },
+      ],
+    ]);
+    const exited = new Promise<void>((resolve) => {
+      child.on("exit", (code, signal) => {
+        recordExit(processes.get(pid) as SpawnedProcess, code, signal);
+        resolve();
+      });
+    });
+    if (stop) {
+      // Gives the wrapper time to start the command in its terminal
+      await sleep(500);
+      await stop(pid);
+    }
+    await exited;
+    return listSpawnedProcesses(processes, () => 0)[0];
+  }
+
+  it("should list the exit code of the command", async () => {
+    const listed = await run("sh", ["-c", "exit 3"]);
+    expect(listed).toMatchObject({ status: "exited", exitCode: 3 });
+    expect(listed.signal).toBeUndefined();
+  });
+
+  it("should list the signal that killed the command", async () => {
+    const terminated = await run("sleep", ["30"], (pid) => killProcessTree(pid));
+    expect(terminated).toMatchObject({ status: "exited", signal: "SIGTERM" });
+    expect(terminated.exitCode).toBeUndefined();
+
+    const killed = await run("sleep", ["30"], (pid) => killProcessTree(pid, { signal: "SIGKILL" }));
+    expect(killed).toMatchObject({ status: "exited", signal: "SIGKILL" });
+  });
+});
@@ -0,0 +1,34 @@
+import { type ChildProcessByStdio, spawn } from "node:child_process";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import type { Readable, Writable } from "node:stream";
+import type { TerminalSize } from "./options.ts";
+
+// The container path first, then the local development build
+const PTY_WRAPPER_PATHS = [
+  "/app/pty-wrapper/dist/index.js",
+  join(process.cwd(), "pty-wrapper/dist/index.js"),
+];
+
+export function ptyWrapperPath(): string {
+  return PTY_WRAPPER_PATHS.find((path) => existsSync(path)) ?? PTY_WRAPPER_PATHS[1];
+}
+
+/**
+ * Starts a command in a terminal of the Node.js pty-wrapper, as Bun cannot run
+ * a PTY itself. fd 3 and 4 are the wrapper's control pipes: requests in,
+ * replies out. The wrapper exits like the command does, with its exit code or
+ * by the signal that killed it.
+ */
+export function spawnPty(
+  command: string,
+  args: string[],
+  options: { cwd: string; env: NodeJS.ProcessEnv; terminal: TerminalSize },
+): ChildProcessByStdio<Writable, Readable, Readable> {
+  const { cols, rows } = options.terminal;
+  return spawn("node", [ptyWrapperPath(), `--cols=${cols}`, `--rows=${rows}`, command, ...args], {
+    cwd: options.cwd,
+    stdio: ["pipe", "pipe", "pipe", "pipe", "pipe"],
+    env: options.env,
+  });
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "bun:test";
+import { Scrollback } from "./scrollback.ts";
+
+describe("Scrollback", () => {
+  it("should keep chunks in order with their stream", () => {
+    const scrollback = new Scrollback(100);
+    scrollback.append("stdout", "$ npm install\n");
+    scrollback.append("stderr", "warn deprecated\n");
+    scrollback.append("exit", "0");
+
+    expect(scrollback.chunks()).toEqual([
+      { stream: "stdout", data: "$ npm install\n" },
+      { stream: "stderr", data: "warn deprecated\n" },
+      { stream: "exit", data: "0" },
+    ]);
+    expect(scrollback.length).toBe(31);
+  });
+
+  it("should drop the oldest chunks beyond its length", () => {
+    const scrollback = new Scrollback(10);
+    scrollback.append("stdout", "aaaa");
+    scrollback.append("stdout", "bbbb");
+    scrollback.append("stdout", "cccc");
+
+    expect(scrollback.chunks().map((chunk) => chunk.data)).toEqual(["bbbb", "cccc"]);
+    expect(scrollback.length).toBe(8);
+  });
+
+  it("should keep the end of a chunk longer than its length", () => {
+    const scrollback = new Scrollback(4);
+    scrollback.append("stdout", "old");
+    scrollback.append("stdout", "0123456789");
+
+    expect(scrollback.chunks()).toEqual([{ stream: "stdout", data: "6789" }]);
+  });
+});
@@ -0,0 +1,47 @@
+const DEFAULT_MAX_LENGTH = 256 * 1024;
+
+export interface ScrollbackChunk {
+  stream: string;
+  data: string;
+}
+
+/**
+ * The latest output of a process, bounded in length. The oldest chunks are
+ * dropped first, a single chunk longer than the limit keeps its end.
+ */
+export class Scrollback {
+  private readonly maxLength: number;
+  private readonly buffered: ScrollbackChunk[];
+  private bufferedLength: number;
+
+  /**
+   * @param maxLength Characters of output to keep
+   */
+  constructor(maxLength = DEFAULT_MAX_LENGTH) {
+    this.maxLength = maxLength;
+    this.buffered = [];
+    this.bufferedLength = 0;
+  }
+
+  get length(): number {
+    return this.bufferedLength;
+  }
+
+  append(stream: string, data: string): void {
+    const chunk = {
+      stream,
+      data: data.length > this.maxLength ? data.slice(-this.maxLength) : data,
+    };
+    this.buffered.push(chunk);
+    this.bufferedLength += chunk.data.length;
+
+    while (this.bufferedLength > this.maxLength) {
+      const oldest = this.buffered.shift() as ScrollbackChunk;
+      this.bufferedLength -= oldest.data.length;
+    }
+  }
+
+  chunks(): readonly ScrollbackChunk[] {
+    return this.buffered;
+  }
+}
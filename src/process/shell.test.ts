@@ -0,0 +1,75 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { type ChildProcess, spawn } from "node:child_process";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { OscMarkerParser, ShellSession, shellCommand } from "./shell.ts";
+
+describe("OscMarkerParser", () => {
+  it("should split text and markers", () => {
+    const parser = new OscMarkerParser();
+    expect(parser.push("a\x1b]654;exit=1:0\x07b\x1b]654;prompt\x1b\\")).toEqual([
+      { text: "a" },
+      { marker: "exit=1:0" },
+      { text: "b" },
+      { marker: "prompt" },
+    ]);
+  });
+
+  it("should hold back markers split across chunks", () => {
+    const parser = new OscMarkerParser();
+    expect(parser.push("out\x1b]6")).toEqual([{ text: "out" }]);
+    expect(parser.push("54;comm")).toEqual([]);
+    expect(parser.push("and\x07more")).toEqual([{ marker: "command" }, { text: "more" }]);
+  });
+});
+
+describe("ShellSession", () => {
+  let dir: string;
+  let child: ChildProcess;
+  let session: ShellSession;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "shell-test-"));
+    const { command, args } = await shellCommand("bash", dir);
+    // Keeps the user's ~/.bashrc out of the test
+    const env = { ...process.env };
+    env.HOME = dir;
+    // Without a terminal bash prompts on stderr, merged here to keep the order
+    child = spawn("sh", ["-c", 'exec "$0" "$@" 2>&1', command, ...args], {
+      cwd: dir,
+      env,
+    });
+    session = new ShellSession(child);
+    await session.ready;
+  });
+
+  afterAll(async () => {
+    child.kill("SIGKILL");
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should return the output and exit code of a command", async () => {
+    expect(await session.execute("echo hello; false")).toEqual({ output: "hello\n", exitCode: 1 });
+  });
+
+  it("should keep the working directory and environment between commands", async () => {
+    await session.execute("cd /usr && export GREETING=hi");
+    const result = await session.execute('echo "$PWD $GREETING"');
+    expect(result).toEqual({ output: "/usr hi\n", exitCode: 0 });
+  });
+
+  it("should run queued commands one after another", async () => {
+    const results = await Promise.all([
+      session.execute("sleep 0.1; echo first"),
+      session.execute("echo second"),
+    ]);
+    expect(results.map((result) => result.output)).toEqual(["first\n", "second\n"]);
+  });
+
+  it("should give up on commands that time out", async () => {
+    // Without a terminal Ctrl-C is plain input, so sleep still runs to its end
+    await expect(session.execute("sleep 0.5", { timeout: 100 })).rejects.toThrow("timed out");
+    expect(await session.execute("echo after")).toEqual({ output: "after\n", exitCode: 0 });
+  });
+});
@@ -0,0 +1,245 @@
+import type { ChildProcess } from "node:child_process";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { ExecutionResult } from "../../protocol/src/index.ts";
+import { OperationError } from "../errors.ts";
+
+const OSC_654_START = "\x1b]654;";
+// Markers end with BEL, or with ST as other OSC sequences may
+const OSC_TERMINATORS = ["\x07", "\x1b\\"];
+const EXIT_MARKER = /^exit=(-?\d+)/;
+const DEFAULT_READY_TIMEOUT_MS = 10_000;
+const INTERRUPT = "\x03";
+
+// Same hooks as the container's .zshrc, bash has no preexec so PS0 marks the command start
+const BASH_INTEGRATION = `[ -f ~/.bashrc ] && . ~/.bashrc
+__osc654() { printf '\\033]654;%s\\007' "$1"; }
+__osc654_precmd() { local code=$?; __osc654 "exit=$code:0"; __osc654 prompt; }
+PROMPT_COMMAND=__osc654_precmd
+PS0='\\e]654;command\\a'
+__osc654 interactive
+`;
+
+export type ShellOutput = { text: string } | { marker: string };
+
+/**
+ * Splits terminal output into text and OSC 654 markers. A marker may be split
+ * across chunks, its beginning is then held back until the rest arrives.
+ */
+export class OscMarkerParser {
+  private pending: string;
+
+  constructor() {
+    this.pending = "";
+  }
+
+  push(chunk: string): ShellOutput[] {
+    const parts: ShellOutput[] = [];
+    let data = this.pending + chunk;
+    this.pending = "";
+
+    while (data) {
+      const start = data.indexOf(OSC_654_START);
+      if (start === -1) {
+        const kept = data.length - partialStartLength(data);
+        parts.push({ text: data.slice(0, kept) });
+        this.pending = data.slice(kept);
+        break;
+      }
+
+      parts.push({ text: data.slice(0, start) });
+      const rest = data.slice(start + OSC_654_START.length);
+      const end = findTerminator(rest);
+      if (!end) {
+        this.pending = data.slice(start);
+        break;
+      }
+      parts.push({ marker: rest.slice(0, end.index) });
+      data = rest.slice(end.index + end.length);
+    }
+    return parts.filter((part) => !("text" in part) || part.text);
+  }
+}
+
+function findTerminator(data: string): { index: number; length: number } | undefined {
+  let found: { index: number; length: number } | undefined;
+  for (const terminator of OSC_TERMINATORS) {
+    const index = data.indexOf(terminator);
+    if (index !== -1 && (!found || index < found.index)) {
+      found = { index, length: terminator.length };
+    }
+  }
+  return found;
+}
+
+/**
+ * Length of the end of data that could be the beginning of a marker.
+ */
+function partialStartLength(data: string): number {
+  for (let length = Math.min(data.length, OSC_654_START.length - 1); length > 0; length--) {
+    if (OSC_654_START.startsWith(data.slice(-length))) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+/**
+ * The command line for an interactive shell that reports command boundaries
+ * with OSC 654 markers. zsh gets its hooks from the container's .zshrc, bash
+ * from an rc file written below dataDir.
+ */
+export async function shellCommand(
+  shell: "zsh" | "bash",
+  dataDir: string,
+): Promise<{ command: string; args: string[] }> {
+  if (shell === "zsh") {
+    return { command: "zsh", args: ["-i"] };
+  }
+  const rcFile = join(dataDir, "shell", "bashrc");
+  await mkdir(join(dataDir, "shell"), { recursive: true });
+  await writeFile(rcFile, BASH_INTEGRATION);
+  return { command: "bash", args: ["--rcfile", rcFile, "-i"] };
+}
+
+interface RunningCommand {
+  output: string;
+  resolve: (result: ExecutionResult) => void;
+  reject: (error: Error) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Runs commands one after another in a long-lived interactive shell, so the
+ * working directory and environment carry over between them. The output of a
+ * command is what the shell prints between its "command" and "exit" markers.
+ */
+export class ShellSession {
+  readonly pid: number;
+  /** Resolves once the shell shows its first prompt */
+  readonly ready: Promise<void>;
+  private readonly child: ChildProcess;
+  private readonly parser: OscMarkerParser;
+  private prompt: Promise<void>;
+  private resolvePrompt: () => void;
+  private running?: RunningCommand;
+  private queue: Promise<unknown>;
+  private exited: boolean;
+
+  constructor(child: ChildProcess, options: { readyTimeout?: number } = {}) {
+    if (!(child.pid && child.stdin && child.stdout)) {
+      throw new Error("Shell process has no pid or streams");
+    }
+    this.pid = child.pid;
+    this.child = child;
+    this.parser = new OscMarkerParser();
+    this.resolvePrompt = () => undefined;
+    this.prompt = this.nextPrompt();
+    this.queue = Promise.resolve();
+    this.exited = false;
+
+    const readyTimeout = options.readyTimeout ?? DEFAULT_READY_TIMEOUT_MS;
+    this.ready = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error(`Shell did not report a prompt within ${readyTimeout}ms`)),
+        readyTimeout,
+      );
+      this.prompt.then(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+      child.on("exit", () => {
+        clearTimeout(timer);
+        reject(new Error("Shell exited before its first prompt"));
+      });
+    });
+    // Callers that never await ready must not see an unhandled rejection
+    this.ready.catch(() => undefined);
+
+    // Decoded here, the server reads the same streams as Buffers
+    for (const stream of [child.stdout, child.stderr]) {
+      const decoder = new TextDecoder();
+      stream?.on("data", (chunk: Buffer) => this.receive(decoder.decode(chunk, { stream: true })));
+    }
+    child.on("exit", () => this.close());
+  }
+
+  /**
+   * Runs a command once the previous ones have finished. With a timeout, the
+   * command is interrupted with Ctrl-C when it takes longer.
+   */
+  execute(command: string, options: { timeout?: number } = {}): Promise<ExecutionResult> {
+    const result = this.queue.then(() => this.run(command, options.timeout));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async run(command: string, timeout?: number): Promise<ExecutionResult> {
+    await this.ready;
+    await this.prompt;
+    if (this.exited) {
+      throw new OperationError("SHELL_EXITED", `Shell ${this.pid} has exited`);
+    }
+
+    return new Promise((resolve, reject) => {
+      const running: RunningCommand = { output: "", resolve, reject };
+      if (timeout !== undefined) {
+        running.timer = setTimeout(() => {
+          this.child.stdin?.write(INTERRUPT);
+          this.finish(new OperationError("SHELL_TIMEOUT", `Command timed out after ${timeout}ms`));
+        }, timeout);
+      }
+      this.running = running;
+      this.child.stdin?.write(`${command}\n`);
+    });
+  }
+
+  private receive(chunk: string): void {
+    for (const part of this.parser.push(chunk)) {
+      if ("text" in part) {
+        if (this.running) {
+          this.running.output += part.text;
+        }
+        continue;
+      }
+
+      const exit = EXIT_MARKER.exec(part.marker);
+      if (part.marker === "prompt") {
+        this.resolvePrompt();
+      } else if (part.marker === "command" && this.running) {
+        // Drops the echo of the command line
+        this.running.output = "";
+      } else if (exit && this.running) {
+        this.finish({ output: this.running.output, exitCode: Number(exit[1]) });
+      }
+    }
+  }
+
+  private finish(result: ExecutionResult | Error): void {
+    const running = this.running;
+    if (!running) {
+      return;
+    }
+    clearTimeout(running.timer);
+    this.running = undefined;
+    // The next command waits for the prompt that follows this one
+    this.prompt = this.nextPrompt();
+    if (result instanceof Error) {
+      running.reject(result);
+    } else {
+      running.resolve(result);
+    }
+  }
+
+  private nextPrompt(): Promise<void> {
+    return new Promise((resolve) => {
+      this.resolvePrompt = resolve;
+    });
+  }
+
+  private close(): void {
+    this.exited = true;
+    this.finish(new OperationError("SHELL_EXITED", `Shell ${this.pid} has exited`));
+    this.resolvePrompt();
+  }
+}
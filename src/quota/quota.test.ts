@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import type { QuotaWarningEvent } from "../../protocol/src/index.ts";
+import { DiskQuota } from "./quota.ts";
+
+describe("DiskQuota", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "quota-test-"));
+    await writeFile(join(dir, "existing.txt"), "x".repeat(500));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should refuse changes that exceed the limit and track the others", async () => {
+    const warnings: QuotaWarningEvent[] = [];
+    const quota = new DiskQuota(dir, {
+      limitBytes: 1000,
+      thresholds: [0.5, 0.9],
+      onWarning: (warning) => warnings.push(warning),
+    });
+    await quota.start();
+    quota.stop();
+    expect(quota.used).toBe(500);
+    expect(warnings).toEqual([{ usedBytes: 500, limitBytes: 1000, threshold: 0.5 }]);
+
+    const file = join(dir, "new.txt");
+    await quota.apply([file], 400, () => writeFile(file, "y".repeat(400)));
+    expect(quota.used).toBe(900);
+    expect(warnings.at(-1)?.threshold).toBe(0.9);
+
+    const tooLarge = quota.apply([file], 700, () => writeFile(file, "z".repeat(700)));
+    await expect(tooLarge).rejects.toMatchObject({ code: "QUOTA_EXCEEDED" });
+
+    // Replacing a file only counts the difference
+    await quota.apply([file], 450, () => writeFile(file, "z".repeat(450)));
+    expect(quota.used).toBe(950);
+
+    await quota.apply([file], 0, () => rm(file));
+    expect(quota.used).toBe(500);
+    expect(warnings).toHaveLength(2);
+  });
+
+  it("should reserve the bytes of running changes", async () => {
+    const quota = new DiskQuota(dir, { limitBytes: 1000 });
+    await quota.start();
+    quota.stop();
+    const first = join(dir, "first.txt");
+    const second = join(dir, "second.txt");
+
+    let finish: () => void = () => undefined;
+    const running = quota.apply([first], 300, async () => {
+      await new Promise<void>((resolve) => {
+        finish = resolve;
+      });
+      await writeFile(first, "a".repeat(300));
+    });
+    await sleep(10);
+
+    const concurrent = quota.apply([second], 300, () => writeFile(second, "b".repeat(300)));
+    await expect(concurrent).rejects.toMatchObject({ code: "QUOTA_EXCEEDED" });
+    finish();
+    await running;
+    expect(quota.used).toBe(800);
+
+    await quota.apply([first], 0, () => rm(first));
+    expect(quota.used).toBe(500);
+  });
+
+  it("should hold reserved bytes until they are released", async () => {
+    const quota = new DiskQuota(dir, { limitBytes: 1000 });
+    await quota.start();
+    quota.stop();
+    const file = join(dir, "staged.txt");
+
+    const first = quota.reserve(300);
+    expect(() => quota.reserve(300)).toThrow("Workspace quota exceeded");
+
+    // Moving the staged content in does not count it twice
+    await quota.apply([file], 300, () => writeFile(file, "s".repeat(300)), first);
+    first.release();
+    first.release();
+    expect(quota.used).toBe(800);
+    expect(() => quota.reserve(200)).not.toThrow();
+
+    await quota.apply([file], 0, () => rm(file));
+  });
+
+  it("should not measure anything without a limit", async () => {
+    const quota = new DiskQuota(dir);
+    await quota.start();
+    await quota.apply([join(dir, "existing.txt")], 10_000, () => Promise.resolve());
+
+    expect(quota.enabled).toBe(false);
+    expect(quota.used).toBe(0);
+  });
+});
@@ -0,0 +1,212 @@
+import { lstat } from "node:fs/promises";
+import type { QuotaWarningEvent } from "../../protocol/src/index.ts";
+import { OperationError } from "../errors.ts";
+import { walkWorkspace } from "../filesystem/walk.ts";
+
+const DEFAULT_THRESHOLDS = [0.8, 0.9];
+const DEFAULT_SCAN_INTERVAL_MS = 60_000;
+
+export interface DiskQuotaOptions {
+  /** Quota in bytes, no limit is enforced when omitted */
+  limitBytes?: number;
+  /** Fractions of the limit at which a warning is reported, defaults to 0.8 and 0.9 */
+  thresholds?: number[];
+  /**
+   * How often usage is recounted. Processes write to the workspace without
+   * going through the agent, so incremental tracking alone drifts.
+   */
+  scanIntervalMs?: number;
+  onWarning?: (warning: QuotaWarningEvent) => void;
+}
+
+/**
+ * Bytes held back for content staged outside the workspace, e.g. an unfinished
+ * upload, until it is moved in or given up.
+ */
+export interface QuotaReservation {
+  readonly bytes: number;
+  /** Gives the bytes back, only the first call counts */
+  release(): void;
+}
+
+/**
+ * Size of a path in bytes, counting everything below directories and the
+ * link itself for symlinks. Missing paths count as zero.
+ */
+export async function measurePath(fullPath: string): Promise<number> {
+  let stats: Awaited<ReturnType<typeof lstat>>;
+  try {
+    stats = await lstat(fullPath);
+  } catch {
+    return 0;
+  }
+  if (!stats.isDirectory()) {
+    return stats.size;
+  }
+
+  let size = stats.size;
+  for await (const entry of walkWorkspace(fullPath)) {
+    size += entry.stats.size;
+  }
+  return size;
+}
+
+/**
+ * Tracks disk usage of the workspace against a limit. Usage is adjusted after
+ * every change made through the agent and recounted periodically.
+ */
+export class DiskQuota {
+  readonly limitBytes: number | undefined;
+  private readonly root: string;
+  private readonly thresholds: number[];
+  private readonly scanIntervalMs: number;
+  private readonly onWarning?: (warning: QuotaWarningEvent) => void;
+  private usedBytes = 0;
+  /** Bytes promised to changes that are still running */
+  private reservedBytes = 0;
+  /** Number of thresholds the usage is currently at or above */
+  private level = 0;
+  private scanTimer?: ReturnType<typeof setInterval>;
+
+  constructor(root: string, options: DiskQuotaOptions = {}) {
+    this.root = root;
+    this.limitBytes = options.limitBytes;
+    this.thresholds = [...(options.thresholds ?? DEFAULT_THRESHOLDS)].sort((a, b) => a - b);
+    this.scanIntervalMs = options.scanIntervalMs ?? DEFAULT_SCAN_INTERVAL_MS;
+    this.onWarning = options.onWarning;
+  }
+
+  get enabled(): boolean {
+    return this.limitBytes !== undefined;
+  }
+
+  get used(): number {
+    return this.usedBytes;
+  }
+
+  /**
+   * Counts the current usage and keeps recounting it in the background.
+   */
+  async start(): Promise<void> {
+    if (!this.enabled || this.scanTimer) {
+      return;
+    }
+    this.scanTimer = setInterval(() => {
+      this.scan().catch((error) => console.error("Failed to measure workspace usage", error));
+    }, this.scanIntervalMs);
+    this.scanTimer.unref();
+    await this.scan();
+  }
+
+  stop(): void {
+    clearInterval(this.scanTimer);
+    this.scanTimer = undefined;
+  }
+
+  async scan(): Promise<number> {
+    let size = 0;
+    for await (const entry of walkWorkspace(this.root)) {
+      size += entry.stats.size;
+    }
+    this.update(size);
+    return size;
+  }
+
+  /**
+   * Throws a QUOTA_EXCEEDED error when adding the given number of bytes would go
+   * over the limit, counting the bytes reserved by running changes.
+   */
+  assertAvailable(bytes: number): void {
+    if (this.limitBytes === undefined || bytes <= 0) {
+      return;
+    }
+    const total = this.usedBytes + this.reservedBytes + bytes;
+    if (total > this.limitBytes) {
+      throw new OperationError(
+        "QUOTA_EXCEEDED",
+        `Workspace quota exceeded: ${total} of ${this.limitBytes} bytes`,
+      );
+    }
+  }
+
+  /**
+   * Reserves bytes until the returned reservation is released. Throws a
+   * QUOTA_EXCEEDED error when they are not available.
+   */
+  reserve(bytes: number): QuotaReservation {
+    this.assertAvailable(bytes);
+    this.reservedBytes += bytes;
+    let released = false;
+    return {
+      bytes,
+      release: () => {
+        if (!released) {
+          released = true;
+          this.reservedBytes -= bytes;
+        }
+      },
+    };
+  }
+
+  /**
+   * Runs a change that writes about `bytes` bytes to the given paths, replacing
+   * what is there. The change is refused up front when it would exceed the
+   * quota and the growth stays reserved while it runs, so concurrent changes
+   * cannot together go over the limit. Afterwards usage is adjusted by what the
+   * paths actually grew. The bytes of a `staged` reservation the change moves
+   * into the workspace are not counted twice.
+   */
+  async apply<T>(
+    fullPaths: string[],
+    bytes: number,
+    change: () => Promise<T>,
+    staged?: QuotaReservation,
+  ): Promise<T> {
+    if (!this.enabled) {
+      return change();
+    }
+    const before = await this.measure(fullPaths);
+    const reserved = Math.max(0, bytes - before);
+    this.assertAvailable(reserved - (staged?.bytes ?? 0));
+
+    this.reservedBytes += reserved;
+    try {
+      const result = await change();
+      this.adjust((await this.measure(fullPaths)) - before);
+      return result;
+    } finally {
+      this.reservedBytes -= reserved;
+    }
+  }
+
+  adjust(delta: number): void {
+    this.update(Math.max(0, this.usedBytes + delta));
+  }
+
+  private async measure(fullPaths: string[]): Promise<number> {
+    let size = 0;
+    for (const fullPath of fullPaths) {
+      size += await measurePath(fullPath);
+    }
+    return size;
+  }
+
+  private update(usedBytes: number): void {
+    this.usedBytes = usedBytes;
+    if (this.limitBytes === undefined) {
+      return;
+    }
+
+    const ratio = usedBytes / this.limitBytes;
+    const level = this.thresholds.filter((threshold) => ratio >= threshold).length;
+    // Only rising past a threshold is reported, once until usage drops below it again
+    if (level > this.level) {
+      this.onWarning?.({
+        usedBytes,
+        limitBytes: this.limitBytes,
+        threshold: this.thresholds[level - 1],
+      });
+    }
+    this.level = level;
+  }
+}
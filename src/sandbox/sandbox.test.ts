@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { WorkspaceSandbox } from "./sandbox.ts";
+
+describe("WorkspaceSandbox", () => {
+  let dir: string;
+  let workspace: string;
+  let sandbox: WorkspaceSandbox;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "sandbox-test-"));
+    workspace = join(dir, "workspace");
+    await mkdir(join(workspace, "src"), { recursive: true });
+    await mkdir(join(workspace, ".git"));
+    await mkdir(join(dir, "workspace2"));
+    await mkdir(join(dir, "outside"));
+    await writeFile(join(workspace, ".env"), "SECRET=1");
+    await writeFile(join(workspace, ".git/config"), "[core]");
+    await symlink("../outside", join(workspace, "escape"));
+    await symlink(join(dir, "outside/new.txt"), join(workspace, "dangling"));
+    await symlink("src", join(workspace, "source"));
+    await symlink(".env", join(workspace, "env"));
+
+    sandbox = new WorkspaceSandbox(workspace, { hidden: [".env"], readOnly: [".git/config"] });
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("resolve", () => {
+    it("should resolve normal and nested paths inside the workspace", () => {
+      expect(sandbox.resolve("src/file.ts")).toBe(join(workspace, "src/file.ts"));
+      expect(sandbox.resolve("src/components/utils/file.ts")).toBe(
+        join(workspace, "src/components/utils/file.ts"),
+      );
+      expect(sandbox.resolve("")).toBe(workspace);
+    });
+
+    it("should keep traversal inside the workspace", () => {
+      expect(sandbox.resolve("../../file.ts")).toBe(join(workspace, "file.ts"));
+      expect(sandbox.resolve("/etc/passwd")).toBe(join(workspace, "etc/passwd"));
+    });
+
+    it("should not let sibling directories with the same prefix through", () => {
+      expect(sandbox.resolve("../workspace2/file.ts")).toBe(join(workspace, "workspace2/file.ts"));
+    });
+
+    it("should follow symlinks that stay inside the workspace", () => {
+      expect(sandbox.resolve("source/index.ts", "write")).toBe(join(workspace, "source/index.ts"));
+    });
+
+    it("should refuse symlinks that lead outside the workspace", () => {
+      expect(() => sandbox.resolve("escape")).toThrow("resolves outside of the workspace");
+      expect(() => sandbox.resolve("escape/file.txt", "write")).toThrow(
+        expect.objectContaining({ code: "PATH_OUTSIDE_WORKSPACE" }),
+      );
+      // Writing through a dangling link would create the file outside
+      expect(() => sandbox.resolve("dangling", "write")).toThrow(
+        expect.objectContaining({ code: "PATH_OUTSIDE_WORKSPACE" }),
+      );
+    });
+
+    it("should allow operating on the link itself when not following it", () => {
+      expect(sandbox.resolve("escape", "write", { followSymlinks: false })).toBe(
+        join(workspace, "escape"),
+      );
+    });
+
+    it("should resolve inside a workspace that is itself a symlink", async () => {
+      const link = join(dir, "workspace-link");
+      await symlink(workspace, link);
+      const linked = new WorkspaceSandbox(link);
+
+      expect(linked.resolve("source/index.ts")).toBe(join(link, "source/index.ts"));
+      expect(() => linked.resolve("escape")).toThrow("resolves outside of the workspace");
+    });
+  });
+
+  describe("protected paths", () => {
+    it("should refuse hidden paths, also when reached through a symlink", () => {
+      expect(() => sandbox.resolve(".env")).toThrow(
+        expect.objectContaining({ code: "PATH_HIDDEN" }),
+      );
+      expect(() => sandbox.resolve("env")).toThrow(
+        expect.objectContaining({ code: "PATH_HIDDEN" }),
+      );
+      expect(() => sandbox.resolve("src/.env", "write")).toThrow(
+        expect.objectContaining({ code: "PATH_HIDDEN" }),
+      );
+    });
+
+    it("should allow reading but not writing read-only paths", () => {
+      expect(sandbox.resolve(".git/config")).toBe(join(workspace, ".git/config"));
+      expect(() => sandbox.resolve(".git/config", "write")).toThrow(
+        expect.objectContaining({ code: "PATH_READ_ONLY" }),
+      );
+    });
+
+    it("should refuse removing directories that contain read-only paths", async () => {
+      await expect(sandbox.assertTreeWritable(join(workspace, ".git"))).rejects.toMatchObject({
+        code: "PATH_READ_ONLY",
+      });
+      await expect(sandbox.assertTreeWritable(join(workspace, "src"))).resolves.toBeUndefined();
+    });
+
+    it("should filter hidden paths relative to a walk root", () => {
+      expect(sandbox.hiddenBelow(workspace)(".env")).toBe(true);
+      expect(sandbox.hiddenBelow(join(workspace, "src"))("nested/.env")).toBe(true);
+      expect(sandbox.hiddenBelow(workspace)("src/index.ts")).toBe(false);
+    });
+  });
+
+  describe("assertPattern", () => {
+    it("should refuse patterns that reach outside the workspace", () => {
+      expect(() => sandbox.assertPattern("src/**/*.ts")).not.toThrow();
+      expect(() => sandbox.assertPattern("../**")).toThrow("matches outside of the workspace");
+      expect(() => sandbox.assertPattern("src/../../etc/*")).toThrow();
+      expect(() => sandbox.assertPattern("/etc/*")).toThrow();
+    });
+  });
+});
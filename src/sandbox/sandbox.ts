@@ -0,0 +1,193 @@
+import { lstatSync, readlinkSync } from "node:fs";
+import { dirname, isAbsolute, join, normalize, relative, sep } from "node:path";
+import { OperationError } from "../errors.ts";
+import { type PathMatcher, createPathMatcher, walkWorkspace } from "../filesystem/walk.ts";
+
+// Same limit as Linux (MAXSYMLINKS)
+const MAX_SYMLINKS = 40;
+const PARENT_SEGMENT = /(^|\/)\.\.(\/|$)/;
+
+export type SandboxAccess = "read" | "write";
+
+export interface SandboxOptions {
+  /** Workspace-relative patterns that can be read but not changed, e.g. ".git/config" */
+  readOnly?: string[];
+  /** Workspace-relative patterns that are neither listed nor accessible, e.g. ".env" */
+  hidden?: string[];
+}
+
+export interface ResolveOptions {
+  /**
+   * Whether a symlink in the last path segment is followed. Operations on the
+   * link itself, like rm and rename, pass false.
+   */
+  followSymlinks?: boolean;
+}
+
+function isInside(root: string, path: string): boolean {
+  return path === root || path.startsWith(root.endsWith(sep) ? root : `${root}${sep}`);
+}
+
+/**
+ * Resolves symlinks like realpath, but also for paths that do not exist yet:
+ * the missing part is appended as is, since it cannot contain links.
+ */
+function resolveRealPath(path: string, followLast: boolean): string {
+  const pending = path.split(sep).filter(Boolean);
+  let current: string = sep;
+  let links = 0;
+
+  while (pending.length > 0) {
+    const segment = pending.shift() as string;
+    if (segment === ".") {
+      continue;
+    }
+    if (segment === "..") {
+      current = dirname(current);
+      continue;
+    }
+
+    const next = join(current, segment);
+    const stats = lstatSync(next, { throwIfNoEntry: false });
+    if (!stats) {
+      return join(next, ...pending);
+    }
+    if (!stats.isSymbolicLink() || (pending.length === 0 && !followLast)) {
+      current = next;
+      continue;
+    }
+
+    links++;
+    if (links > MAX_SYMLINKS) {
+      throw new OperationError(
+        "PATH_OUTSIDE_WORKSPACE",
+        `Too many levels of symbolic links: ${path}`,
+      );
+    }
+    const target = readlinkSync(next);
+    pending.unshift(...target.split(sep).filter(Boolean));
+    if (isAbsolute(target)) {
+      current = sep;
+    }
+  }
+  return current;
+}
+
+/**
+ * Confines client supplied paths to the workspace. Paths are clamped to the
+ * workspace root lexically, then checked again after resolving symlinks, so a
+ * link inside the workspace cannot be used to reach files outside of it.
+ */
+export class WorkspaceSandbox {
+  readonly root: string;
+  readonly hidden: string[];
+  readonly readOnly: string[];
+  private readonly isHiddenPath: PathMatcher;
+  private readonly isReadOnlyPath: PathMatcher;
+
+  constructor(root: string, options: SandboxOptions = {}) {
+    this.root = normalize(root);
+    this.hidden = options.hidden ?? [];
+    this.readOnly = options.readOnly ?? [];
+    this.isHiddenPath = createPathMatcher(this.hidden);
+    this.isReadOnlyPath = createPathMatcher(this.readOnly);
+  }
+
+  /**
+   * Returns the absolute path for a workspace-relative path, or throws an
+   * OperationError when the path must not be accessed.
+   */
+  resolve(userPath: string, access: SandboxAccess = "read", options: ResolveOptions = {}): string {
+    // Rooting the path first means ".." can never climb above the workspace
+    const path = normalize(`/${userPath}`).slice(1);
+    const fullPath = path ? join(this.root, path) : this.root;
+
+    const realRoot = resolveRealPath(this.root, true);
+    const realPath = resolveRealPath(fullPath, options.followSymlinks ?? true);
+    if (!isInside(realRoot, realPath)) {
+      throw new OperationError(
+        "PATH_OUTSIDE_WORKSPACE",
+        `${userPath} resolves outside of the workspace`,
+      );
+    }
+
+    // Checked for both names, a link must not give access to a protected path
+    for (const candidate of new Set([path, relative(realRoot, realPath)])) {
+      this.check(userPath, candidate, access);
+    }
+    return fullPath;
+  }
+
+  /**
+   * Throws unless a symlink at linkPath pointing to target would stay inside the
+   * workspace and off hidden paths. Unlike resolve, targets are not clamped.
+   */
+  assertLinkTarget(linkPath: string, target: string): void {
+    const fullLinkPath = this.resolve(linkPath, "write", { followSymlinks: false });
+    const fullTarget = isAbsolute(target) ? target : join(dirname(fullLinkPath), target);
+    const path = relative(this.root, fullTarget);
+    if (path === ".." || path.startsWith(`..${sep}`) || isAbsolute(path)) {
+      throw new OperationError(
+        "PATH_OUTSIDE_WORKSPACE",
+        `Symlink ${linkPath} points outside of the workspace: ${target}`,
+      );
+    }
+    this.resolve(path);
+  }
+
+  /**
+   * Throws unless nothing below the given path is read-only, for operations that
+   * replace or remove a whole directory.
+   */
+  async assertTreeWritable(fullPath: string): Promise<void> {
+    if (this.readOnly.length === 0) {
+      return;
+    }
+    for await (const entry of walkWorkspace(fullPath)) {
+      const path = relative(this.root, entry.fullPath);
+      if (this.isReadOnlyPath(path)) {
+        throw new OperationError("PATH_READ_ONLY", `${path} is read-only`);
+      }
+    }
+  }
+
+  /**
+   * Throws for glob patterns that could match outside of the workspace.
+   */
+  assertPattern(pattern: string): void {
+    if (isAbsolute(pattern) || PARENT_SEGMENT.test(pattern)) {
+      throw new OperationError(
+        "PATH_OUTSIDE_WORKSPACE",
+        `${pattern} matches outside of the workspace`,
+      );
+    }
+  }
+
+  /**
+   * A walk filter that skips hidden paths, for walks rooted at a workspace directory.
+   */
+  hiddenBelow(fullPath: string): (path: string) => boolean {
+    const base = relative(this.root, fullPath);
+    return (path) => this.isHiddenPath(base ? `${base}/${path}` : path);
+  }
+
+  isHidden(path: string): boolean {
+    return this.isHiddenPath(path);
+  }
+
+  isReadOnly(path: string): boolean {
+    return this.isReadOnlyPath(path);
+  }
+
+  private check(userPath: string, path: string, access: SandboxAccess): void {
+    if (!path) {
+      return;
+    }
+    if (this.isHiddenPath(path)) {
+      throw new OperationError("PATH_HIDDEN", `${userPath} is not accessible`);
+    }
+    if (access === "write" && this.isReadOnlyPath(path)) {
+      throw new OperationError("PATH_READ_ONLY", `${userPath} is read-only`);
+    }
+  }
+}
@@ -1,33 +1,125 @@
-import { type ChildProcess, spawn } from "node:child_process";
+import type { ChildProcess } from "node:child_process";
+import { randomUUID } from "node:crypto";
 import type { Dirent, Stats } from "node:fs";
 import { glob, mkdir, readFile, readdir, rm, stat, writeFile } from "node:fs/promises";
-import { join, normalize } from "node:path";
+import { basename, join, relative } from "node:path";
+import type { Readable, Writable } from "node:stream";
 import { PortScanner } from "./portScanner/portScanner.ts";
 import process from "node:process";
 import type { Server, ServerWebSocket } from "bun";
 import chokidar, { type FSWatcher } from "chokidar";
-import type {
-  AuthOperation,
-  BufferEncoding,
-  ContainerEventMessage,
-  ContainerRequest,
-  ContainerResponse,
-  ContainerResponseWithId,
-  FileSystemOperation,
-  FileSystemTree,
-  ProcessEventMessage,
-  ProcessOperation,
-  ProcessResponse,
-  WatchOperation,
-  WatchPathsOperation,
-  WatchResponse,
+import {
+  type ArchiveImportProgressEvent,
+  type ArchiveImportResponse,
+  type AttachResponse,
+  type AuthOperation,
+  type AuthResponse,
+  type BatchOperation,
+  type BatchResponse,
+  type ContainerEventMessage,
+  type ContainerOperation,
+  type ContainerRequest,
+  type ContainerResponse,
+  type ContainerResponseWithId,
+  type ExecOperation,
+  type ExecResponse,
+  type ExecutionResult,
+  decodeBinaryFrame,
+  encodeBinaryFrame,
+  type FileChangeEventMessage,
+  type FileChunkResponse,
+  type FileHistoryOperation,
+  type FileHistoryOperationType,
+  type FileHistoryResponse,
+  type FileSystemOperation,
+  type FileSystemTree,
+  type FileTransferOperation,
+  type FileVersion,
+  type FindOperation,
+  type FindResponse,
+  type FollowProcessLogResponse,
+  type KillResponse,
+  type ListProcessesResponse,
+  type FileTransferProgressEvent,
+  type FileTransferResponse,
+  type ProcessEventMessage,
+  type ProcessLimitExceededEvent,
+  type ProcessLogEvent,
+  type ProcessLogOperation,
+  type ProcessLogResponse,
+  type ProcessOperation,
+  type PathOperationResponse,
+  type ProcessResponse,
+  type QuotaWarningEvent,
+  type ReadTreeOperation,
+  type ResizeResponse,
+  type ReadTreeResponse,
+  type ReadFileResponse,
+  type RestoreFileVersionResponse,
+  type SearchMatchEvent,
+  type SearchOperation,
+  type SearchResponse,
+  type ShellOperation,
+  type ShellStartResponse,
+  type SnapshotDiff,
+  type SnapshotOperation,
+  type SpawnOptions,
+  type SyncApplyResponse,
+  type SyncOperation,
+  type WatchOperation,
+  type WatchPathsOperation,
+  type WatchResponse,
 } from "../protocol/src/index.ts";
+import { decodeFileContent, encodeFileContent } from "./filesystem/content.ts";
+import {
+  ARCHIVE_CONTENT_TYPES,
+  createWorkspaceArchive,
+  parseArchiveFormat,
+} from "./archive/export.ts";
+import { extractArchive } from "./archive/import.ts";
+import { type BatchPathResolver, runBatch } from "./filesystem/batch.ts";
+import { errorCode } from "./errors.ts";
+import { type CapturedVersions, FileJournal } from "./journal/journal.ts";
+import { type ControlRequest, PtyControlChannel } from "./process/control.ts";
+import { execCommand } from "./process/exec.ts";
+import { type KillOptions, killProcessTree } from "./process/kill.ts";
+import { type SpawnedProcess, listSpawnedProcesses, recordExit } from "./process/info.ts";
+import { spawnPty } from "./process/pty.ts";
+import { type LimitExceeded, ResourceMonitor, applyRlimits } from "./process/limits.ts";
+import { type ProcessLogListener, ProcessLogStore } from "./process/log.ts";
+import { resolveWorkingDirectory, terminalSize } from "./process/options.ts";
+import { Scrollback } from "./process/scrollback.ts";
+import { ShellSession, shellCommand } from "./process/shell.ts";
+import { findPaths } from "./filesystem/find.ts";
+import { PathLocks } from "./filesystem/lock.ts";
+import { assertFileVersion, preparePatch, readFileVersion } from "./filesystem/patch.ts";
+import { searchWorkspace } from "./filesystem/search.ts";
+import { FileHashCache, diffManifest, removeSyncedPaths } from "./filesystem/sync.ts";
+import { globTouchesPath } from "./filesystem/glob.ts";
+import { copyPath, movePath, renamePath } from "./filesystem/operations.ts";
+import { FileTransferManager } from "./filesystem/transfer.ts";
+import { listTreeEntries, readTree, writeTree } from "./filesystem/tree.ts";
+import { DiskQuota, measurePath } from "./quota/quota.ts";
+import { type SandboxAccess, WorkspaceSandbox } from "./sandbox/sandbox.ts";
+import { SnapshotStore } from "./snapshot/store.ts";
 import { FlyClient, initializeFlyClient } from "./fly";
 import type { DirectConnectionData, ProxyData } from "./types.ts";
 import { CandidatePort } from "./portScanner";
 import { AuthManager } from './auth';
 
 type WebSocketData = ProxyData | DirectConnectionData;
+// Raw content stays a Uint8Array until serializeResponse sends it as the binary frame payload
+type WithPayload<T extends { content?: string }> = Omit<T, "content"> & {
+  content?: string | Uint8Array;
+};
+
+// Covers chokidar's awaitWriteFinish delay for files touched by rename/copy/move
+const WATCH_SUPPRESSION_MS = 2000;
+// How long the output of an exited process can still be replayed by attach
+const SCROLLBACK_RETENTION_MS = 5 * 60 * 1000;
+// Operations that leave the workspace unchanged, and those that act on a symlink itself
+const READ_OPERATIONS = new Set(["readFile", "readdir", "stat", "copy"]);
+const LINK_OPERATIONS = new Set(["rm", "rename", "move"]);
 
 // Type guards
 function isProxyConnection(data: WebSocketData): data is ProxyData {
@@ -38,6 +130,13 @@ function isDirectConnection(data: WebSocketData): data is DirectConnectionData {
   return data && "wsId" in data;
 }
 
+function requirePid(operation: ProcessOperation): number {
+  if (!operation.pid) {
+    throw new Error(`PID is required for ${operation.type} operation`);
+  }
+  return operation.pid;
+}
+
 // CORS 미들웨어 함수
 function corsMiddleware(handler: (req: Request, server?: any) => Promise<Response | undefined> | Response | undefined) {
   return async (req: Request, server?: any) => {
@@ -47,7 +146,7 @@ function corsMiddleware(handler: (req: Request, server?: any) => Promise<Respons
         status: 204,
         headers: {
           'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
           'Access-Control-Allow-Headers': 'Content-Type, Authorization',
           'Access-Control-Max-Age': '86400'
         }
@@ -61,7 +160,7 @@ function corsMiddleware(handler: (req: Request, server?: any) => Promise<Respons
     // CORS 헤더 추가
     const headers = new Headers(response.headers);
     headers.set('Access-Control-Allow-Origin', '*');
-    headers.set('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    headers.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
     headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
     return new Response(response.body, {
@@ -75,7 +174,14 @@ function corsMiddleware(handler: (req: Request, server?: any) => Promise<Respons
 export class ContainerServer {
   private readonly server: Server;
   private readonly processes: Map<number, ChildProcess>;
+  private readonly ptyControls: Map<number, PtyControlChannel>;
+  private readonly scrollbacks: Map<number, Scrollback>;
+  private readonly processLogs: ProcessLogStore;
+  private readonly spawnedProcesses: Map<number, SpawnedProcess>;
+  private readonly shellSessions: Map<string, ShellSession>;
   private readonly fileSystemWatchers: Map<string, FSWatcher>;
+  private readonly watcherPatterns: Map<string, Set<string>>;
+  private readonly suppressedWatchPaths: Map<string, number>;
   private readonly fileWatchClients: Map<string, Set<ServerWebSocket<unknown>>>;
   private readonly clientWatchers: Map<ServerWebSocket<unknown>, Set<string>>;
   private readonly activeWs: Map<string, ServerWebSocket<WebSocketData>>;
@@ -88,12 +194,25 @@ export class ContainerServer {
     forwardPreviewErrors: boolean;
     appHostName: string;
     machineId: string;
+    dataDir: string;
+    readOnlyPaths?: string[];
+    hiddenPaths?: string[];
+    quotaBytes?: number;
+    quotaWarningThresholds?: number[];
+    processLogRetentionMs?: number;
   };
   private authToken: string | undefined;
   private appHostName: string;
   private machineId: string;
   private flyClientPromise: Promise<FlyClient>;
   private readonly authManager: AuthManager;
+  private readonly fileTransfers: FileTransferManager;
+  private readonly snapshots: SnapshotStore;
+  private readonly journal: FileJournal;
+  private readonly fileHashes: FileHashCache;
+  private readonly fileLocks: PathLocks;
+  private readonly sandbox: WorkspaceSandbox;
+  private readonly quota: DiskQuota;
 
   constructor(config: {
     port: number;
@@ -102,14 +221,55 @@ export class ContainerServer {
     forwardPreviewErrors: boolean;
     appHostName: string;
     machineId: string;
+    /** Where the agent keeps its own state, e.g. snapshots and file history */
+    dataDir: string;
+    /** Workspace paths clients can read but not change */
+    readOnlyPaths?: string[];
+    /** Workspace paths clients can neither see nor access */
+    hiddenPaths?: string[];
+    /** Disk quota for the workspace, unlimited when omitted */
+    quotaBytes?: number;
+    /** Fractions of the quota at which clients are warned */
+    quotaWarningThresholds?: number[];
+    /** How long the output log of a process is kept after it exits */
+    processLogRetentionMs?: number;
   }) {
     this.config = config;
     this.processes = new Map();
+    this.ptyControls = new Map();
+    this.scrollbacks = new Map();
+    this.processLogs = new ProcessLogStore(config.dataDir, {
+      retention: config.processLogRetentionMs,
+    });
+    this.processLogs.start().catch((error) => {
+      console.error("Failed to remove old process logs:", error);
+    });
+    this.spawnedProcesses = new Map();
+    this.shellSessions = new Map();
     this.fileSystemWatchers = new Map();
+    this.watcherPatterns = new Map();
+    this.suppressedWatchPaths = new Map();
     this.activeWs = new Map();
     this.fileWatchClients = new Map();
     this.processClients = new Map();
     this.clientWatchers = new Map();
+    this.fileTransfers = new FileTransferManager(join(config.dataDir, "transfers"));
+    this.journal = new FileJournal(config.workdirName, config.dataDir);
+    this.fileHashes = new FileHashCache();
+    this.fileLocks = new PathLocks();
+    this.sandbox = new WorkspaceSandbox(config.workdirName, {
+      readOnly: config.readOnlyPaths,
+      hidden: config.hiddenPaths,
+    });
+    this.snapshots = new SnapshotStore(this.sandbox, config.dataDir);
+    this.quota = new DiskQuota(config.workdirName, {
+      limitBytes: config.quotaBytes,
+      thresholds: config.quotaWarningThresholds,
+      onWarning: (warning) => this.broadcastQuotaWarning(warning),
+    });
+    this.quota.start().catch((error) => {
+      console.error("Failed to measure workspace usage:", error);
+    });
     this.appHostName = config.appHostName;
     this.machineId = config.machineId;
     this.authManager = new AuthManager({
@@ -222,6 +382,94 @@ export class ContainerServer {
             return new Response(null, { status: 204 });
           })
         },
+        "/api/workspace/export": {
+          GET: corsMiddleware(async (req: Request) => {
+            if (!(await this.isAuthorized(req))) {
+              return Response.json({ error: "Invalid or missing authorization token" }, { status: 401 });
+            }
+
+            const url = new URL(req.url);
+            try {
+              const format = parseArchiveFormat(url.searchParams.get("format"));
+              const path = url.searchParams.get("path") || "";
+              const root = this.sandbox.resolve(path);
+              if (!(await stat(root)).isDirectory()) {
+                return Response.json({ error: `Not a directory: ${path}` }, { status: 400 });
+              }
+
+              const archive = createWorkspaceArchive(root, format, {
+                include: url.searchParams.getAll("include"),
+                exclude: url.searchParams.getAll("exclude"),
+                ignore: this.sandbox.hiddenBelow(root),
+              });
+              const filename = `${basename(root) || "workspace"}.${format}`;
+
+              return new Response(archive, {
+                headers: {
+                  "Content-Type": ARCHIVE_CONTENT_TYPES[format],
+                  "Content-Disposition": `attachment; filename="${filename}"`,
+                },
+              });
+            } catch (error) {
+              return Response.json({
+                error: "Error occurred while exporting workspace",
+                details: error instanceof Error ? error.message : "Unknown error"
+              }, { status: 400 });
+            }
+          }),
+          OPTIONS: corsMiddleware(() => {
+            return new Response(null, { status: 204 });
+          })
+        },
+        "/api/workspace/import": {
+          POST: corsMiddleware(async (req: Request) => {
+            if (!(await this.isAuthorized(req))) {
+              return Response.json({ error: "Invalid or missing authorization token" }, { status: 401 });
+            }
+            if (!req.body) {
+              return Response.json({ error: "Archive body is required" }, { status: 400 });
+            }
+
+            const url = new URL(req.url);
+            const importId = url.searchParams.get("importId") || randomUUID();
+            // Progress goes to the connection that asked for it, e.g. the one starting the upload
+            const progressSocket = this.activeWs.get(url.searchParams.get("connectionId") || "");
+            try {
+              const formatParam = url.searchParams.get("format");
+              const format = formatParam ? parseArchiveFormat(formatParam) : undefined;
+              const path = url.searchParams.get("path") || "";
+              const target = this.sandbox.resolve(path, "write");
+              // Missing for chunked uploads, checkBytes still holds those to the quota
+              const contentLength = Number(req.headers.get("content-length") ?? Number.NaN);
+              if (Number.isFinite(contentLength)) {
+                // The archive is at least as large as its compressed upload
+                this.quota.assertAvailable(contentLength);
+              }
+
+              const result = await extractArchive(req.body, target, {
+                format,
+                totalBytes: contentLength > 0 ? contentLength : undefined,
+                checkPath: (entryPath) => this.sandbox.resolve(join(path, entryPath), "write"),
+                checkBytes: (bytes) => this.quota.assertAvailable(bytes),
+                checkReplace: (fullPath) => this.sandbox.assertTreeWritable(fullPath),
+                merge: (fullPaths, merge) => this.mergeImport(fullPaths, merge, progressSocket),
+                onProgress: (progress) =>
+                  progressSocket && this.sendImportProgress(progressSocket, { importId, ...progress }),
+              });
+
+              const response: ArchiveImportResponse = { importId, ...result };
+              return Response.json(response);
+            } catch (error) {
+              return Response.json({
+                error: "Error occurred while importing archive",
+                details: error instanceof Error ? error.message : "Unknown error"
+              }, { status: 400 });
+            }
+          }),
+          OPTIONS: corsMiddleware(() => {
+            return new Response(null, { status: 204 });
+          })
+        },
         "/api/machine/:id": {
           GET: corsMiddleware(async (req: Request) => {
             const token = this.authManager.extractTokenFromHeader(req.headers.get("authorization"));
@@ -337,6 +585,10 @@ export class ContainerServer {
           const data = ws.data;
           if (isDirectConnection(data)) {
             this.activeWs.delete(data.wsId);
+            for (const clients of this.processClients.values()) {
+              clients.delete(ws);
+            }
+            this.processLogs.unfollowAll(ws);
 
             if (this.clientWatchers.has(ws)) {
               const watcherIds = this.clientWatchers.get(ws);
@@ -352,6 +604,7 @@ export class ContainerServer {
                         fsWatcher.close();
                         this.fileSystemWatchers.delete(watcherId);
                       }
+                      this.watcherPatterns.delete(watcherId);
                       this.fileWatchClients.delete(watcherId);
                     }
                   }
@@ -366,6 +619,11 @@ export class ContainerServer {
     });
   }
 
+  private async isAuthorized(req: Request): Promise<boolean> {
+    const token = this.authManager.extractTokenFromHeader(req.headers.get("authorization"));
+    return Boolean(token && (await this.authManager.verifyToken(token)));
+  }
+
   private async handleMessage(
     ws: ServerWebSocket<WebSocketData>,
     message: string | Buffer,
@@ -373,7 +631,7 @@ export class ContainerServer {
     console.debug(message);
 
     try {
-      const { id, operation } = JSON.parse(message.toString()) as ContainerRequest;
+      const { id, operation } = parseRequest(message);
       const { type } = operation;
       let response: ContainerResponse;
 
@@ -386,20 +644,77 @@ export class ContainerServer {
           case "mkdir":
           case "stat":
           case "mount":
-            response = await this.handleFileSystemOperation(operation);
+          case "rename":
+          case "copy":
+          case "move":
+          case "patchFile":
+            response = await this.handleFileSystemOperation(operation, ws);
             break;
           case "spawn":
           case "input":
           case "kill":
           case "resize":
+          case "signal":
+          case "terminalStatus":
+          case "attach":
+          case "listProcesses":
             response = await this.handleProcessOperation(operation, ws);
             break;
+          case "exec":
+            response = await this.handleExecOperation(operation);
+            break;
+          case "shellStart":
+          case "shellExecute":
+          case "shellClose":
+            response = await this.handleShellOperation(operation, ws);
+            break;
+          case "readProcessLog":
+          case "followProcessLog":
+          case "unfollowProcessLog":
+            response = await this.handleProcessLogOperation(operation, ws);
+            break;
           case "watch":
           case "watch-paths":
             response = await this.handleWatchOperation(operation, ws);
             break;
           case "auth":
-            response = await this.handleAuthOperation(operation);
+            response = await this.handleAuthOperation(operation, ws);
+            break;
+          case "uploadStart":
+          case "uploadChunk":
+          case "uploadFinish":
+          case "downloadStart":
+          case "downloadChunk":
+          case "downloadFinish":
+          case "transferAbort":
+            response = await this.handleFileTransferOperation(operation, ws);
+            break;
+          case "batch":
+            response = await this.handleBatchOperation(operation, ws);
+            break;
+          case "search":
+            response = await this.handleSearchOperation(operation, ws);
+            break;
+          case "find":
+            response = await this.handleFindOperation(operation);
+            break;
+          case "snapshotCreate":
+          case "snapshotList":
+          case "snapshotDiff":
+          case "snapshotRestore":
+          case "snapshotDelete":
+            response = await this.handleSnapshotOperation(operation, ws);
+            break;
+          case "syncManifest":
+          case "syncApply":
+            response = await this.handleSyncOperation(operation, ws);
+            break;
+          case "fileHistory":
+          case "restoreFileVersion":
+            response = await this.handleFileHistoryOperation(operation, ws);
+            break;
+          case "readTree":
+            response = await this.handleReadTreeOperation(operation);
             break;
           default:
             response = {
@@ -416,13 +731,13 @@ export class ContainerServer {
           ...response,
         };
 
-        ws.send(JSON.stringify(serverResponse));
+        ws.send(serializeResponse(serverResponse));
       } catch (error) {
         const errorResponse: ContainerResponseWithId = {
           id,
           success: false,
           error: {
-            code: "INTERNAL_ERROR",
+            code: errorCode(error, "INTERNAL_ERROR"),
             message: error instanceof Error ? error.message : "Unknown error",
           },
         };
@@ -435,40 +750,61 @@ export class ContainerServer {
 
   private async handleFileSystemOperation(
     operation: FileSystemOperation,
-  ): Promise<ContainerResponse<{ content: string } | { entries: Dirent[] } | Stats | null>> {
+    ws: ServerWebSocket<WebSocketData>,
+  ): Promise<
+    ContainerResponse<
+      | WithPayload<ReadFileResponse>
+      | PathOperationResponse
+      | FileVersion
+      | { entries: Dirent[] }
+      | Stats
+      | null
+    >
+  > {
     try {
       const path = operation.path || "";
-      const fullPath = ensureSafePath(this.config.workdirName, path);
+      const fullPath = this.sandbox.resolve(path, this.accessFor(operation.type), {
+        followSymlinks: !LINK_OPERATIONS.has(operation.type),
+      });
 
       switch (operation.type) {
         case "readFile": {
-          const content = await readFile(fullPath, {
-            encoding: (operation.options?.encoding as BufferEncoding) || "utf-8",
-          });
-          return { success: true, data: { content: content.toString() } };
+          const encoding = operation.options?.encoding || "utf-8";
+          const bytes = await readFile(fullPath);
+          const content = encodeFileContent(bytes, encoding);
+          return { success: true, data: { content, encoding, size: bytes.byteLength } };
         }
         case "writeFile": {
-          if (!operation.content) {
-            throw new Error("Content is required for write operation");
-          }
-          const content =
-            typeof operation.content === "string"
-              ? operation.content
-              : new TextDecoder().decode(operation.content);
-          await writeFile(fullPath, content, {
-            encoding: (operation.options?.encoding as BufferEncoding) || "utf-8",
-          });
+          await this.fileLocks.exclusive(fullPath, () =>
+            this.writeWorkspaceFile(operation, fullPath, ws),
+          );
           return { success: true, data: null };
         }
+        case "patchFile": {
+          const version = await this.fileLocks.exclusive(fullPath, () =>
+            this.withHistory([fullPath], "patchFile", ws, () =>
+              this.patchWorkspaceFile(operation, fullPath),
+            ),
+          );
+          return { success: true, data: version };
+        }
         case "rm": {
-          await rm(fullPath, {
-            recursive: operation.options?.recursive,
-          });
+          await this.sandbox.assertTreeWritable(fullPath);
+          await this.fileLocks.exclusive(fullPath, () =>
+            this.withHistory([fullPath], "rm", ws, () =>
+              this.quota.apply([fullPath], 0, () =>
+                rm(fullPath, {
+                  recursive: operation.options?.recursive,
+                }),
+              ),
+            ),
+          );
           return { success: true, data: null };
         }
         case "readdir": {
+          const isHidden = this.sandbox.hiddenBelow(fullPath);
           const files = await readdir(fullPath, { withFileTypes: true });
-          return { success: true, data: { entries: files } };
+          return { success: true, data: { entries: files.filter((file) => !isHidden(file.name)) } };
         }
         case "mkdir": {
           await mkdir(fullPath, {
@@ -492,9 +828,15 @@ export class ContainerServer {
 
           const tree = JSON.parse(content) as FileSystemTree;
 
-          await mount(fullPath, tree);
+          await this.mountTree(path, tree, ws);
           return { success: true, data: null };
         }
+        case "rename":
+        case "copy":
+        case "move": {
+          const result = await this.transferPath(operation, fullPath);
+          return { success: true, data: result };
+        }
         default:
           throw new Error(`Unsupported file system operation: ${operation.type}`);
       }
@@ -503,60 +845,513 @@ export class ContainerServer {
       return {
         success: false,
         error: {
-          code: "FILESYSTEM_OPERATION_FAILED",
+          code: errorCode(error, "FILESYSTEM_OPERATION_FAILED"),
           message: error instanceof Error ? error.message : "Unknown error occurred",
         },
       };
     }
   }
 
-  private handleProcessOperation(
+  private accessFor(type: FileSystemOperation["type"]): SandboxAccess {
+    return READ_OPERATIONS.has(type) ? "read" : "write";
+  }
+
+  private async writeWorkspaceFile(
+    operation: FileSystemOperation,
+    fullPath: string,
+    ws: ServerWebSocket<WebSocketData>,
+  ): Promise<void> {
+    if (!operation.content) {
+      throw new Error("Content is required for write operation");
+    }
+    const expectedVersion = operation.options?.expectedVersion;
+    if (expectedVersion) {
+      assertFileVersion(operation.path || "", await readFileVersion(fullPath), expectedVersion);
+    }
+    const content = decodeFileContent(operation.content, operation.options?.encoding);
+    await this.withHistory([fullPath], "writeFile", ws, () =>
+      this.quota.apply([fullPath], content.byteLength, () => writeFile(fullPath, content)),
+    );
+  }
+
+  /**
+   * Patches a file within the disk quota, counting the size it has once patched.
+   */
+  private async patchWorkspaceFile(
+    operation: FileSystemOperation,
+    fullPath: string,
+  ): Promise<FileVersion> {
+    const patched = await preparePatch(
+      fullPath,
+      {
+        patch: operation.patch,
+        edits: operation.edits,
+        expectedVersion: operation.options?.expectedVersion,
+      },
+      operation.path || "",
+    );
+    await this.quota.apply([fullPath], Buffer.byteLength(patched), () =>
+      writeFile(fullPath, patched),
+    );
+    return readFileVersion(fullPath);
+  }
+
+  /**
+   * Mounts a tree below a workspace path, within the disk quota.
+   */
+  private async mountTree(
+    path: string,
+    tree: FileSystemTree,
+    ws: ServerWebSocket<WebSocketData>,
+  ): Promise<void> {
+    const entries = listTreeEntries(path, tree);
+    const fullPaths = entries.map((entry) =>
+      this.sandbox.resolve(entry.path, "write", { followSymlinks: false }),
+    );
+    const bytes = entries.reduce((total, entry) => total + entry.size, 0);
+    await this.fileLocks.exclusive(fullPaths, () =>
+      this.withHistory(fullPaths, "mount", ws, () =>
+        this.quota.apply(fullPaths, bytes, () => writeTree(this.sandbox, path, tree)),
+      ),
+    );
+  }
+
+  /**
+   * Merges an extracted archive under the locks of the paths it replaces, with
+   * their history. Usage is recounted afterwards, also when the merge failed
+   * halfway, as the extracted size does not tell what the merged files replaced.
+   */
+  private async mergeImport(
+    fullPaths: string[],
+    merge: () => Promise<void>,
+    ws?: ServerWebSocket<WebSocketData>,
+  ): Promise<void> {
+    await this.fileLocks.exclusive(fullPaths, () =>
+      this.withHistory(fullPaths, "archiveImport", ws, async () => {
+        try {
+          await merge();
+        } finally {
+          if (this.quota.enabled) {
+            await this.quota.scan();
+          }
+        }
+      }),
+    );
+  }
+
+  /**
+   * Runs a change that replaces or removes paths, and journals the state they
+   * had before once the change succeeded.
+   */
+  private async withHistory<T>(
+    fullPaths: string[],
+    operation: FileHistoryOperationType,
+    ws: ServerWebSocket<WebSocketData> | undefined,
+    change: () => Promise<T>,
+  ): Promise<T> {
+    return this.settleHistory(await this.captureHistory(fullPaths, operation, ws), change);
+  }
+
+  /**
+   * A failing journal is logged, it must not keep clients from editing files.
+   */
+  private async captureHistory(
+    fullPaths: string[],
+    operation: FileHistoryOperationType,
+    ws: ServerWebSocket<WebSocketData> | undefined,
+  ): Promise<CapturedVersions[]> {
+    try {
+      return [await this.journal.capture(fullPaths, operation, this.connectionId(ws))];
+    } catch (error) {
+      console.error("Failed to record file history:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Runs a change and commits the captured versions when it succeeds, or
+   * discards them when it throws or `succeeded` rejects its result.
+   */
+  private async settleHistory<T>(
+    captured: CapturedVersions[],
+    change: () => Promise<T>,
+    succeeded: (result: T) => boolean = () => true,
+  ): Promise<T> {
+    let committed = false;
+    try {
+      const result = await change();
+      committed = succeeded(result);
+      return result;
+    } finally {
+      for (const versions of captured) {
+        const settled = committed ? this.journal.commit(versions) : this.journal.discard(versions);
+        await settled.catch((error: unknown) => console.error("Failed to record file history:", error));
+      }
+    }
+  }
+
+  private connectionId(ws: ServerWebSocket<WebSocketData> | undefined): string | undefined {
+    return ws && isDirectConnection(ws.data) ? ws.data.wsId : undefined;
+  }
+
+  private async handleBatchOperation(
+    operation: BatchOperation,
+    ws: ServerWebSocket<WebSocketData>,
+  ): Promise<ContainerResponse<BatchResponse>> {
+    const pathOperations = operation.operations.filter(
+      (item) => item.newPath && (item.type === "rename" || item.type === "move" || item.type === "copy"),
+    );
+    const resolvePath: BatchPathResolver = (path, access, options) =>
+      this.sandbox.resolve(path, access, options);
+
+    await this.assertTreesWritable(operation.operations);
+    const batch = await this.fileLocks.exclusive(
+      this.batchPaths(operation.operations, resolvePath),
+      async () =>
+        this.settleHistory(
+          await this.captureBatchHistory(operation.operations, ws),
+          () => this.runBatchWithinQuota(operation.operations, resolvePath),
+          (result) => result.results.every((item) => item.status !== "failed"),
+        ),
+    );
+
+    const failed = batch.results.find((result) => result.status === "failed");
+    if (failed) {
+      return {
+        success: false,
+        data: batch,
+        error: {
+          code: batch.rolledBack ? "BATCH_FAILED" : "BATCH_ROLLBACK_FAILED",
+          message: `Operation ${failed.index} (${failed.type}) failed: ${failed.error?.message}`,
+        },
+      };
+    }
+
+    for (const item of pathOperations) {
+      if (!batch.results[operation.operations.indexOf(item)].data?.skipped) {
+        const fullPath = resolvePath(item.path || "", "read");
+        const newFullPath = resolvePath(item.newPath || "", "read");
+        // Only the operations that went through replace their watcher events
+        this.suppressWatchEvents(fullPath, newFullPath);
+        this.notifyPathOperation(item.type === "copy" ? "copy" : "rename", fullPath, newFullPath);
+      }
+    }
+
+    return { success: true, data: batch };
+  }
+
+  /**
+   * Every path a batch touches, locked for the whole batch.
+   */
+  private batchPaths(operations: FileSystemOperation[], resolvePath: BatchPathResolver): string[] {
+    const fullPaths: string[] = [];
+    for (const item of operations) {
+      fullPaths.push(
+        resolvePath(item.path || "", "read", { followSymlinks: !LINK_OPERATIONS.has(item.type) }),
+      );
+      if (item.newPath) {
+        fullPaths.push(resolvePath(item.newPath, "read"));
+      }
+    }
+    return fullPaths;
+  }
+
+  private async runBatchWithinQuota(
+    operations: FileSystemOperation[],
+    resolvePath: BatchPathResolver,
+  ): Promise<BatchResponse> {
+    const fullPaths: string[] = [];
+    let bytes = 0;
+    for (const item of operations) {
+      const fullPath = resolvePath(item.path || "", "read", { followSymlinks: false });
+      fullPaths.push(fullPath);
+      if (item.newPath) {
+        fullPaths.push(resolvePath(item.newPath, "read"));
+      }
+      if (item.type === "writeFile" && item.content !== undefined) {
+        bytes += decodeFileContent(item.content, item.options?.encoding).byteLength;
+      } else if (item.type === "copy") {
+        bytes += await measurePath(fullPath);
+      }
+    }
+    return this.quota.apply(fullPaths, bytes, () =>
+      runBatch(operations, resolvePath, join(this.config.dataDir, "transactions")),
+    );
+  }
+
+  private async captureBatchHistory(
+    operations: FileSystemOperation[],
+    ws: ServerWebSocket<WebSocketData>,
+  ): Promise<CapturedVersions[]> {
+    const captured: CapturedVersions[] = [];
+    for (const item of operations) {
+      if (item.type === "writeFile" || item.type === "rm") {
+        const fullPath = this.sandbox.resolve(item.path || "", "write", {
+          followSymlinks: item.type !== "rm",
+        });
+        captured.push(...(await this.captureHistory([fullPath], item.type, ws)));
+      }
+    }
+    return captured;
+  }
+
+  /**
+   * Checks up front that removed and moved directories contain no read-only paths.
+   */
+  private async assertTreesWritable(operations: FileSystemOperation[]): Promise<void> {
+    for (const item of operations) {
+      if (LINK_OPERATIONS.has(item.type)) {
+        const fullPath = this.sandbox.resolve(item.path || "", "write", { followSymlinks: false });
+        await this.sandbox.assertTreeWritable(fullPath);
+      }
+    }
+  }
+
+  private async transferPath(
+    operation: FileSystemOperation,
+    fullPath: string,
+  ): Promise<PathOperationResponse> {
+    if (!operation.newPath) {
+      throw new Error(`New path is required for ${operation.type} operation`);
+    }
+    const newFullPath = this.sandbox.resolve(operation.newPath, "write");
+    if (operation.type !== "copy") {
+      await this.sandbox.assertTreeWritable(fullPath);
+    }
+    const conflict = operation.options?.conflict;
+
+    const result = await this.fileLocks.exclusive([fullPath, newFullPath], async () => {
+      if (operation.type === "rename") {
+        return renamePath(fullPath, newFullPath, conflict);
+      }
+      if (operation.type === "move") {
+        return movePath(fullPath, newFullPath, conflict);
+      }
+      return this.quota.apply([newFullPath], await measurePath(fullPath), () =>
+        copyPath(fullPath, newFullPath, {
+          recursive: operation.options?.recursive,
+          conflict,
+        }),
+      );
+    });
+
+    if (!result.skipped) {
+      // The individual watcher events (unlink + add per file) are replaced by one event
+      this.suppressWatchEvents(fullPath, newFullPath);
+      this.notifyPathOperation(operation.type === "copy" ? "copy" : "rename", fullPath, newFullPath);
+    }
+    return result;
+  }
+
+  private async handleProcessOperation(
     operation: ProcessOperation,
     ws: ServerWebSocket<WebSocketData>,
-  ): Promise<ContainerResponse<ProcessResponse | null>> {
+  ): Promise<
+    ContainerResponse<
+      | ProcessResponse
+      | ResizeResponse
+      | AttachResponse
+      | ListProcessesResponse
+      | KillResponse
+      | null
+    >
+  > {
     try {
       switch (operation.type) {
         case "spawn": {
           if (!operation.command) {
             throw new Error("Command is required for spawn operation");
           }
-          return Promise.resolve(this.spawnProcess(operation.command, operation.args || [], ws));
+          return this.spawnProcess(operation.command, operation.args || [], ws, operation.options);
         }
         case "input": {
           if (!(operation.pid && operation.data)) {
             throw new Error("PID and data are required for input operation");
           }
-          return Promise.resolve(this.sendInput(operation.pid, operation.data));
+          return this.sendInput(operation.pid, operation.data);
         }
         case "resize": {
           if (!(operation.pid && operation.cols && operation.rows)) {
             throw new Error("PID, cols, and rows are required for resize operation");
           }
-          return Promise.resolve(
-            this.resizeTerminal(operation.pid, operation.cols, operation.rows),
-          );
+          return await this.resizeTerminal(operation.pid, operation.cols, operation.rows);
         }
-        case "kill": {
-          if (!operation.pid) {
-            throw new Error("PID is required for kill operation");
+        case "signal": {
+          if (!operation.signal) {
+            throw new Error("Signal is required for signal operation");
           }
-          return Promise.resolve(this.killProcess(operation.pid));
+          const request = { type: "signal", signal: operation.signal } as const;
+          return await this.controlTerminal(requirePid(operation), request);
+        }
+        case "terminalStatus": {
+          return await this.controlTerminal(requirePid(operation), { type: "status" });
+        }
+        case "kill": {
+          const { signal, graceful, gracePeriod } = operation;
+          return await this.killProcess(requirePid(operation), { signal, graceful, gracePeriod });
+        }
+        case "attach": {
+          return this.attachProcess(requirePid(operation), ws);
+        }
+        case "listProcesses": {
+          return this.listProcesses();
         }
         default:
           throw new Error(`Unsupported process operation type: ${operation.type}`);
       }
     } catch (error) {
       console.error("error", error);
-      return Promise.resolve({
+      return {
         success: false,
         error: {
-          code: "PROCESS_OPERATION_FAILED",
+          code: errorCode(error, "PROCESS_OPERATION_FAILED"),
           message: error instanceof Error ? error.message : "Unknown error occurred",
         },
+      };
+    }
+  }
+
+  private async handleExecOperation(
+    operation: ExecOperation,
+  ): Promise<ContainerResponse<ExecResponse>> {
+    try {
+      if (!operation.command) {
+        throw new Error("Command is required for exec operation");
+      }
+      const { cwd, env, ...options } = operation.options ?? {};
+      const result = await execCommand(operation.command, operation.args ?? [], {
+        ...options,
+        cwd: resolveWorkingDirectory(this.sandbox, cwd),
+        env: { ...process.env, ...env, coep: this.config.coep },
       });
+      return { success: true, data: result };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: errorCode(error, "EXEC_FAILED"),
+          message: error instanceof Error ? error.message : "Unknown error occurred",
+        },
+      };
     }
   }
 
+  private async handleShellOperation(
+    operation: ShellOperation,
+    ws: ServerWebSocket<WebSocketData>,
+  ): Promise<ContainerResponse<ShellStartResponse | ExecutionResult | KillResponse>> {
+    try {
+      if (operation.type === "shellStart") {
+        return { success: true, data: await this.startShell(ws, operation.options) };
+      }
+
+      const session = this.shellSessions.get(operation.sessionId ?? "");
+      if (!session) {
+        throw new Error(`Shell session ${operation.sessionId} not found`);
+      }
+      switch (operation.type) {
+        case "shellExecute": {
+          if (!operation.command) {
+            throw new Error("Command is required for shellExecute operation");
+          }
+          const result = await session.execute(operation.command, { timeout: operation.timeout });
+          return { success: true, data: result };
+        }
+        case "shellClose": {
+          return await this.killProcess(session.pid, { graceful: true });
+        }
+        default: {
+          throw new Error(`Unknown shell operation: ${operation.type}`);
+        }
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: errorCode(error, "SHELL_OPERATION_FAILED"),
+          message: error instanceof Error ? error.message : "Unknown error occurred",
+        },
+      };
+    }
+  }
+
+  /**
+   * Spawns an interactive shell with its OSC 654 hooks and waits for its first prompt.
+   */
+  private async startShell(
+    ws: ServerWebSocket<WebSocketData>,
+    options: ShellOperation["options"] = {},
+  ): Promise<ShellStartResponse> {
+    const { shell = "zsh", ...spawnOptions } = options;
+    const { command, args } = await shellCommand(shell, this.config.dataDir);
+    const { pid } = this.spawnProcess(command, args, ws, spawnOptions).data as ProcessResponse;
+    const childProcess = this.processes.get(pid) as ChildProcess;
+
+    const sessionId = randomUUID();
+    const session = new ShellSession(childProcess);
+    this.shellSessions.set(sessionId, session);
+    childProcess.on("exit", () => this.shellSessions.delete(sessionId));
+    try {
+      await session.ready;
+    } catch (error) {
+      childProcess.kill();
+      throw error;
+    }
+    return { sessionId, pid };
+  }
+
+  private async handleProcessLogOperation(
+    operation: ProcessLogOperation,
+    ws: ServerWebSocket<WebSocketData>,
+  ): Promise<ContainerResponse<ProcessLogResponse | FollowProcessLogResponse | null>> {
+    try {
+      const { pid } = operation;
+      const log = this.processLogs.get(pid);
+      if (!log) {
+        throw new Error(`No output log of process ${pid}`);
+      }
+      switch (operation.type) {
+        case "readProcessLog": {
+          const running = this.spawnedProcesses.get(pid)?.status === "running";
+          return { success: true, data: { pid, ...(await log.read(operation.options)), running } };
+        }
+        case "followProcessLog": {
+          const listener: ProcessLogListener = (chunk) => this.sendProcessLogEvent(ws, pid, chunk);
+          const offset = await log.follow(ws, listener, operation.options?.start);
+          return { success: true, data: { pid, offset } };
+        }
+        case "unfollowProcessLog": {
+          log.unfollow(ws);
+          return { success: true, data: null };
+        }
+        default: {
+          throw new Error(`Unknown process log operation: ${operation.type}`);
+        }
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: errorCode(error, "PROCESS_LOG_FAILED"),
+          message: error instanceof Error ? error.message : "Unknown error occurred",
+        },
+      };
+    }
+  }
+
+  private sendProcessLogEvent(
+    ws: ServerWebSocket<WebSocketData>,
+    pid: number,
+    chunk: Omit<ProcessLogEvent, "pid">,
+  ): void {
+    const message: ContainerEventMessage<ProcessLogEvent> = {
+      id: `process-log-${pid}-${chunk.offset}`,
+      event: "process-log",
+      data: { pid, ...chunk },
+    };
+    ws.send(JSON.stringify(message));
+  }
+
   private async handleWatchOperation(
     operation: WatchOperation | WatchPathsOperation,
     ws: ServerWebSocket<WebSocketData>,
@@ -592,21 +1387,431 @@ export class ContainerServer {
       return {
         success: false,
         error: {
-          code: "WATCH_OPERATION_FAILED",
+          code: errorCode(error, "WATCH_OPERATION_FAILED"),
+          message: error instanceof Error ? error.message : "Unknown error occurred",
+        },
+      };
+    }
+  }
+
+  private async handleFileTransferOperation(
+    operation: FileTransferOperation,
+    ws: ServerWebSocket<WebSocketData>,
+  ): Promise<ContainerResponse<FileTransferResponse | WithPayload<FileChunkResponse> | null>> {
+    try {
+      switch (operation.type) {
+        case "uploadStart":
+          return { success: true, data: await this.startUpload(operation) };
+        case "uploadChunk":
+          return { success: true, data: await this.writeUploadChunk(operation, ws) };
+        case "uploadFinish":
+          return { success: true, data: await this.finishUpload(operation) };
+        case "downloadStart":
+          return { success: true, data: await this.startDownload(operation) };
+        case "downloadChunk":
+          return { success: true, data: await this.readDownloadChunk(operation, ws) };
+        case "downloadFinish": {
+          if (!operation.transferId) {
+            throw new Error("Transfer ID is required for downloadFinish operation");
+          }
+          return { success: true, data: await this.fileTransfers.finishDownload(operation.transferId) };
+        }
+        case "transferAbort": {
+          if (!operation.transferId) {
+            throw new Error("Transfer ID is required for transferAbort operation");
+          }
+          await this.fileTransfers.abort(operation.transferId);
+          return { success: true, data: null };
+        }
+        default:
+          throw new Error(`Unsupported file transfer operation: ${operation.type}`);
+      }
+    } catch (error) {
+      console.error("error", error);
+      return {
+        success: false,
+        error: {
+          code: errorCode(error, "FILE_TRANSFER_FAILED"),
+          message: error instanceof Error ? error.message : "Unknown error occurred",
+        },
+      };
+    }
+  }
+
+  private async startUpload(operation: FileTransferOperation): Promise<FileTransferResponse> {
+    if (operation.size === undefined) {
+      throw new Error("Size is required for uploadStart operation");
+    }
+    const fullPath = this.sandbox.resolve(operation.path || "", "write");
+    const options = { transferId: operation.transferId, chunkSize: operation.options?.chunkSize };
+    if (operation.transferId) {
+      return this.fileTransfers.startUpload(fullPath, operation.size, options);
+    }
+    // The staged file takes its full size until the upload is finished or given up
+    const reservation = this.quota.reserve(operation.size);
+    try {
+      return await this.fileTransfers.startUpload(fullPath, operation.size, {
+        ...options,
+        reservation,
+      });
+    } catch (error) {
+      reservation.release();
+      throw error;
+    }
+  }
+
+  private async writeUploadChunk(
+    operation: FileTransferOperation,
+    ws: ServerWebSocket<WebSocketData>,
+  ): Promise<null> {
+    const { transferId, index, content } = operation;
+    if (!(transferId && index !== undefined && content !== undefined)) {
+      throw new Error("Transfer ID, index and content are required for uploadChunk operation");
+    }
+    const encoding = operation.options?.encoding || "base64";
+    const progress = await this.fileTransfers.writeChunk(
+      transferId,
+      index,
+      decodeFileContent(content, encoding),
+    );
+    this.notifyTransferProgress(ws, progress);
+    return null;
+  }
+
+  private finishUpload(operation: FileTransferOperation): Promise<FileTransferResponse> {
+    const { transferId } = operation;
+    if (!transferId) {
+      throw new Error("Transfer ID is required for uploadFinish operation");
+    }
+    const { path, size, reservation } = this.fileTransfers.uploadTarget(transferId);
+    return this.fileLocks.exclusive(path, () =>
+      this.quota.apply(
+        [path],
+        size,
+        () => this.fileTransfers.finishUpload(transferId, operation.checksum),
+        reservation,
+      ),
+    );
+  }
+
+  private startDownload(operation: FileTransferOperation): Promise<FileTransferResponse> {
+    const fullPath = this.sandbox.resolve(operation.path || "");
+    return this.fileTransfers.startDownload(fullPath, {
+      transferId: operation.transferId,
+      chunkSize: operation.options?.chunkSize,
+    });
+  }
+
+  private async readDownloadChunk(
+    operation: FileTransferOperation,
+    ws: ServerWebSocket<WebSocketData>,
+  ): Promise<WithPayload<FileChunkResponse>> {
+    const { transferId, index } = operation;
+    if (!(transferId && index !== undefined)) {
+      throw new Error("Transfer ID and index are required for downloadChunk operation");
+    }
+    const encoding = operation.options?.encoding || "base64";
+    const { content, progress } = await this.fileTransfers.readChunk(transferId, index);
+    this.notifyTransferProgress(ws, progress);
+    return {
+      transferId,
+      index,
+      content: encodeFileContent(content, encoding),
+      encoding,
+      size: content.byteLength,
+    };
+  }
+
+  private notifyTransferProgress(
+    ws: ServerWebSocket<WebSocketData>,
+    progress: FileTransferProgressEvent,
+  ): void {
+    const message: ContainerEventMessage<FileTransferProgressEvent> = {
+      id: `transfer-${progress.transferId}-${Date.now()}`,
+      event: "transfer-progress",
+      data: progress,
+    };
+
+    ws.send(JSON.stringify(message));
+  }
+
+  private async handleSearchOperation(
+    operation: SearchOperation,
+    ws: ServerWebSocket<WebSocketData>,
+  ): Promise<ContainerResponse<SearchResponse>> {
+    const searchId = operation.options?.searchId ?? randomUUID();
+    const startedAt = Date.now();
+
+    try {
+      const root = this.sandbox.resolve(operation.path || "");
+      const search = searchWorkspace(root, operation.query, {
+        ...operation.options,
+        ignore: this.sandbox.hiddenBelow(root),
+      });
+
+      let result = await search.next();
+      while (!result.done) {
+        this.notifySearchMatch(ws, { searchId, ...result.value });
+        result = await search.next();
+      }
+
+      return {
+        success: true,
+        data: { searchId, ...result.value, durationMs: Date.now() - startedAt },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: errorCode(error, "SEARCH_FAILED"),
+          message: error instanceof Error ? error.message : "Unknown error occurred",
+        },
+      };
+    }
+  }
+
+  private notifySearchMatch(ws: ServerWebSocket<WebSocketData>, match: SearchMatchEvent): void {
+    const message: ContainerEventMessage<SearchMatchEvent> = {
+      id: `search-${match.searchId}-${Date.now()}`,
+      event: "search-match",
+      data: match,
+    };
+
+    ws.send(JSON.stringify(message));
+  }
+
+  private async handleFindOperation(
+    operation: FindOperation,
+  ): Promise<ContainerResponse<FindResponse>> {
+    try {
+      const root = this.sandbox.resolve(operation.path || "");
+      const options = {
+        patterns: operation.patterns,
+        ...operation.options,
+        ignore: this.sandbox.hiddenBelow(root),
+        workspaceRoot: this.sandbox.root,
+      };
+      return { success: true, data: await findPaths(root, options) };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: errorCode(error, "FIND_FAILED"),
+          message: error instanceof Error ? error.message : "Unknown error occurred",
+        },
+      };
+    }
+  }
+
+  private async handleReadTreeOperation(
+    operation: ReadTreeOperation,
+  ): Promise<ContainerResponse<ReadTreeResponse>> {
+    try {
+      const root = this.sandbox.resolve(operation.path || "");
+      return {
+        success: true,
+        data: await readTree(root, { ...operation.options, ignore: this.sandbox.hiddenBelow(root) }),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: errorCode(error, "READ_TREE_FAILED"),
+          message: error instanceof Error ? error.message : "Unknown error occurred",
+        },
+      };
+    }
+  }
+
+  private async handleSnapshotOperation(
+    operation: SnapshotOperation,
+    ws: ServerWebSocket<WebSocketData>,
+  ): Promise<ContainerResponse> {
+    try {
+      const { type, snapshotId, against, options = {} } = operation;
+      if (type === "snapshotCreate") {
+        return { success: true, data: await this.snapshots.create(options) };
+      }
+      if (type === "snapshotList") {
+        return { success: true, data: await this.snapshots.list() };
+      }
+      if (!snapshotId) {
+        throw new Error(`Snapshot id is required for ${type} operation`);
+      }
+
+      switch (type) {
+        case "snapshotDiff": {
+          return { success: true, data: await this.snapshots.diff(snapshotId, against) };
+        }
+        case "snapshotRestore": {
+          const restored = await this.snapshots.restore(
+            snapshotId,
+            (fullPaths, bytes, change, changedPaths) =>
+              this.fileLocks.exclusive(changedPaths, () =>
+                this.withHistory(fullPaths, "snapshotRestore", ws, () =>
+                  this.quota.apply(fullPaths, bytes, change),
+                ),
+              ),
+          );
+          this.notifyRestoredPaths(restored.changes);
+          return { success: true, data: restored };
+        }
+        case "snapshotDelete": {
+          await this.snapshots.delete(snapshotId);
+          return { success: true, data: null };
+        }
+        default: {
+          throw new Error(`Unknown snapshot operation: ${type}`);
+        }
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: errorCode(error, "SNAPSHOT_FAILED"),
           message: error instanceof Error ? error.message : "Unknown error occurred",
         },
       };
     }
   }
 
-  private async handleAuthOperation(operation: AuthOperation): Promise<ContainerResponse<null>> {
+  private async handleSyncOperation(
+    operation: SyncOperation,
+    ws: ServerWebSocket<WebSocketData>,
+  ): Promise<ContainerResponse> {
+    try {
+      const basePath = operation.path || "";
+      const root = this.sandbox.resolve(basePath, operation.type === "syncManifest" ? "read" : "write");
+
+      if (operation.type === "syncManifest") {
+        if (!operation.manifest) {
+          throw new Error("Manifest is required for syncManifest operation");
+        }
+        const diff = await diffManifest(root, operation.manifest, {
+          exclude: operation.options?.exclude,
+          ignore: this.sandbox.hiddenBelow(root),
+          cache: this.fileHashes,
+        });
+        return { success: true, data: diff };
+      }
+
+      const remove = operation.remove ?? [];
+      await removeSyncedPaths(this.sandbox, basePath, remove, (fullPath, removePath) =>
+        this.fileLocks.exclusive(fullPath, () =>
+          this.withHistory([fullPath], "rm", ws, () =>
+            this.quota.apply([fullPath], 0, removePath),
+          ),
+        ),
+      );
+      if (operation.tree) {
+        await this.mountTree(basePath, operation.tree, ws);
+      }
+
+      const result: SyncApplyResponse = {
+        written: operation.tree ? listTreeEntries(basePath, operation.tree).length : 0,
+        removed: remove.length,
+      };
+      return { success: true, data: result };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: errorCode(error, "SYNC_FAILED"),
+          message: error instanceof Error ? error.message : "Unknown error occurred",
+        },
+      };
+    }
+  }
+
+  private async handleFileHistoryOperation(
+    operation: FileHistoryOperation,
+    ws: ServerWebSocket<WebSocketData>,
+  ): Promise<ContainerResponse<FileHistoryResponse | RestoreFileVersionResponse>> {
+    try {
+      const { path } = operation;
+      if (operation.type === "fileHistory") {
+        const fullPath = this.sandbox.resolve(path, "read", { followSymlinks: false });
+        return { success: true, data: { path, versions: await this.journal.history(fullPath) } };
+      }
+
+      if (!operation.versionId) {
+        throw new Error("Version id is required for restoreFileVersion operation");
+      }
+      const fullPath = this.sandbox.resolve(path, "write", { followSymlinks: false });
+      const { versionId } = operation;
+      const restored = await this.fileLocks.exclusive(fullPath, async () => {
+        const versions = await this.journal.history(fullPath);
+        // An unknown version is reported by restore
+        const size = versions.find((version) => version.versionId === versionId)?.size ?? 0;
+        return this.quota.apply([fullPath], size, () =>
+          this.journal.restore(fullPath, versionId, this.connectionId(ws)),
+        );
+      });
+      this.suppressWatchEvents(fullPath);
+      this.notifyPathChange(restored.exists ? "change" : "rename", fullPath);
+      return { success: true, data: { path, restored } };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: errorCode(error, "FILE_HISTORY_FAILED"),
+          message: error instanceof Error ? error.message : "Unknown error occurred",
+        },
+      };
+    }
+  }
+
+  /**
+   * Reports a restore as file-change events, instead of the burst chokidar would send.
+   */
+  private notifyRestoredPaths({ added, modified, deleted }: SnapshotDiff): void {
+    const toFullPath = (path: string) => join(this.config.workdirName, path);
+    this.suppressWatchEvents(...[...added, ...modified, ...deleted].map(toFullPath));
+
+    for (const path of [...added, ...deleted]) {
+      this.notifyPathChange("rename", toFullPath(path));
+    }
+    for (const path of modified) {
+      this.notifyPathChange("change", toFullPath(path));
+    }
+  }
+
+  private sendImportProgress(
+    ws: ServerWebSocket<WebSocketData>,
+    progress: ArchiveImportProgressEvent,
+  ): void {
+    const message: ContainerEventMessage<ArchiveImportProgressEvent> = {
+      id: `import-${progress.importId}-${Date.now()}`,
+      event: "import-progress",
+      data: progress,
+    };
+    ws.send(JSON.stringify(message));
+  }
+
+  private broadcastQuotaWarning(warning: QuotaWarningEvent): void {
+    const message: ContainerEventMessage<QuotaWarningEvent> = {
+      id: `quota-${Date.now()}`,
+      event: "quota-warning",
+      data: warning,
+    };
+
+    const payload = JSON.stringify(message);
+    for (const socket of this.activeWs.values()) {
+      socket.send(payload);
+    }
+  }
+
+  private async handleAuthOperation(
+    operation: AuthOperation,
+    ws: ServerWebSocket<WebSocketData>,
+  ): Promise<ContainerResponse<AuthResponse>> {
     try {
       const { type, token } = operation;
 
       if (type === "auth" && token) {
         if (await this.authManager.verifyToken(token)) {
           this.authToken = token;
-          return { success: true, data: null };
+          return { success: true, data: { connectionId: this.connectionId(ws) ?? "" } };
         }
         return {
           success: false,
@@ -638,6 +1843,12 @@ export class ContainerServer {
 
     // Cleanup watchers
     this.cleanup();
+    this.quota.stop();
+
+    // Drop unfinished transfers and their temp files
+    this.fileTransfers.stop().catch((error) => {
+      console.error("Failed to clean up file transfers:", error);
+    });
 
     // Close the server
     this.server.stop();
@@ -647,36 +1858,15 @@ export class ContainerServer {
     command: string,
     args: string[],
     ws: ServerWebSocket<WebSocketData>,
+    options: SpawnOptions = {},
   ): ContainerResponse<ProcessResponse> {
-    // Use the Node.js PTY wrapper for terminal emulation
-    // First try the container path, then fallback to local development path
-    let ptyWrapperPath = '/app/pty-wrapper/dist/index.js';
-
-    // Check if file exists using Node.js methods - more reliable across environments
-    try {
-      require.resolve(ptyWrapperPath);
-    } catch (error) {
-      // Fallback to local development path
-      ptyWrapperPath = join(process.cwd(), 'pty-wrapper/dist/index.js');
-    }
-
-    // Default terminal size
-    const cols = 80;
-    const rows = 24;
-
-    // Create command for PTY wrapper
-    const ptyArgs = [
-      ptyWrapperPath,
-      `--cols=${cols}`,
-      `--rows=${rows}`,
-      command,
-      ...args
-    ];
-
-    const childProcess = spawn('node', ptyArgs, {
-      cwd: this.config.workdirName,
-      stdio: ["pipe", "pipe", "pipe"],
-      env: { ...process.env, coep: this.config.coep },
+    const cwd = resolveWorkingDirectory(this.sandbox, options.cwd);
+    const { cols, rows } = terminalSize(options.terminal);
+    const limited = applyRlimits(command, args, options.limits);
+    const childProcess = spawnPty(limited.command, limited.args, {
+      cwd,
+      env: { ...process.env, ...options.env, coep: this.config.coep },
+      terminal: { cols, rows },
     });
 
     if (!(childProcess.stdin && childProcess.stdout && childProcess.pid)) {
@@ -687,21 +1877,74 @@ export class ContainerServer {
     const textDecoder = new TextDecoder();
 
     this.processes.set(pid, childProcess);
+    const scrollback = new Scrollback();
+    this.scrollbacks.set(pid, scrollback);
+    const processLog = this.processLogs.create(pid);
+    const writeLog = (chunk: Buffer) => {
+      processLog.append(chunk).catch((error) => {
+        console.error(`Failed to write the output log of process ${pid}:`, error);
+      });
+    };
+    const spawned: SpawnedProcess = {
+      command,
+      args,
+      cwd: relative(this.sandbox.root, cwd),
+      startedAt: Date.now(),
+      status: "running",
+      terminal: { cols, rows },
+    };
+    this.spawnedProcesses.set(pid, spawned);
+    this.ptyControls.set(
+      pid,
+      new PtyControlChannel(childProcess.stdio[3] as Writable, childProcess.stdio[4] as Readable),
+    );
     this.registerProcessClient(pid, ws);
+    const monitor =
+      options.limits &&
+      new ResourceMonitor(pid, options.limits, (exceeded) => this.enforceLimit(pid, exceeded), {
+        excludeRoot: true,
+      });
 
     childProcess.stdout.on("data", (chunk) => {
+      monitor?.addOutput(chunk.length);
+      writeLog(chunk);
       const decoded = textDecoder.decode(chunk);
       this.notifyProcess(pid, "stdout", decoded);
     });
 
     childProcess.stderr.on("data", (chunk) => {
+      monitor?.addOutput(chunk.length);
+      writeLog(chunk);
       const decoded = textDecoder.decode(chunk);
       this.notifyProcess(pid, "stderr", decoded);
     });
 
-    childProcess.on("exit", (code) => {
+    childProcess.on("exit", (code, signal) => {
+      monitor?.stop();
+      // The pid may be reused, input and kill must not reach another process
+      this.processes.delete(pid);
+      recordExit(spawned, code, signal);
+      this.ptyControls.get(pid)?.close(`Process ${pid} has exited`);
+      this.ptyControls.delete(pid);
       this.notifyProcess(pid, "exit", String(code ?? 0));
       this.processClients.delete(pid);
+      // Kept for a while, so a client reconnecting right now still learns how it ended.
+      // A process that reused the pid meanwhile keeps its own entries.
+      setTimeout(() => {
+        if (this.scrollbacks.get(pid) === scrollback) {
+          this.scrollbacks.delete(pid);
+        }
+        if (this.spawnedProcesses.get(pid) === spawned) {
+          this.spawnedProcesses.delete(pid);
+        }
+      }, SCROLLBACK_RETENTION_MS).unref();
+    });
+
+    // Unlike exit, close waits for the last output
+    childProcess.on("close", () => {
+      this.processLogs.close(pid).catch((error) => {
+        console.error(`Failed to close the output log of process ${pid}:`, error);
+      });
     });
 
     return {
@@ -712,14 +1955,41 @@ export class ContainerServer {
     };
   }
 
+  /**
+   * Tells the clients of a process which limit it exceeded, then kills it.
+   */
+  private enforceLimit(pid: number, exceeded: LimitExceeded): void {
+    const message: ContainerEventMessage<ProcessLimitExceededEvent> = {
+      id: `limit-exceeded-${pid}-${Date.now()}`,
+      event: "limit-exceeded",
+      data: { pid, ...exceeded },
+    };
+    const payload = JSON.stringify(message);
+    for (const client of this.processClients.get(pid) ?? []) {
+      client.send(payload);
+    }
+
+    killProcessTree(pid, { signal: "SIGKILL" }).catch((error) => {
+      console.error(`Failed to kill process ${pid} over its ${exceeded.limit} limit:`, error);
+    });
+  }
+
   private notifyProcess(pid: number, stream: string, data: string): void {
+    this.scrollbacks.get(pid)?.append(stream, data);
     const clients = this.processClients.get(pid);
 
     if (!clients || clients.size === 0) {
       return;
     }
 
-    // Create stdout notification message
+    // Send stdout notification to all clients watching this process
+    const message = this.processEventMessage(pid, stream, data);
+    for (const client of clients) {
+      client.send(message);
+    }
+  }
+
+  private processEventMessage(pid: number, stream: string, data: string): string {
     const message: ContainerEventMessage<ProcessEventMessage> = {
       id: `process-${stream}-${Date.now()}`,
       event: "process",
@@ -729,11 +1999,36 @@ export class ContainerServer {
         data,
       },
     };
+    return JSON.stringify(message);
+  }
 
-    // Send stdout notification to all clients watching this process
-    for (const client of clients) {
-      client.send(JSON.stringify(message));
+  private listProcesses(): ContainerResponse<ListProcessesResponse> {
+    const processes = listSpawnedProcesses(
+      this.spawnedProcesses,
+      (pid) => this.processClients.get(pid)?.size ?? 0,
+    );
+    return { success: true, data: { processes } };
+  }
+
+  /**
+   * Subscribes a connection to a process it lost track of, e.g. after a reconnect.
+   * The buffered output is replayed first, as the process events it was sent as.
+   */
+  private attachProcess(pid: number, ws: ServerWebSocket<WebSocketData>): ContainerResponse<AttachResponse> {
+    const scrollback = this.scrollbacks.get(pid);
+    if (!scrollback) {
+      throw new Error(`Process ${pid} not found`);
+    }
+
+    // Replayed and subscribed in one go, no output can come in between
+    for (const { stream, data } of scrollback.chunks()) {
+      ws.send(this.processEventMessage(pid, stream, data));
+    }
+    const running = this.processClients.has(pid);
+    if (running) {
+      this.registerProcessClient(pid, ws);
     }
+    return { success: true, data: { pid, replayed: scrollback.length, running } };
   }
 
   private registerProcessClient(pid: number, ws: ServerWebSocket<unknown>): void {
@@ -758,38 +2053,65 @@ export class ContainerServer {
     return { success: true, data: null };
   }
 
-  private resizeTerminal(pid: number, cols: number, rows: number): ContainerResponse<null> {
-    const targetProcess = this.processes.get(pid);
-    if (!targetProcess) {
+  /**
+   * Resizes the pty of a process, resolving once the wrapper has applied the new size.
+   */
+  private resizeTerminal(
+    pid: number,
+    cols: number,
+    rows: number,
+  ): Promise<ContainerResponse<ResizeResponse>> {
+    return this.controlTerminal(pid, { type: "resize", ...terminalSize({ cols, rows }) });
+  }
+
+  /**
+   * Sends a request to the pty-wrapper of a process and replies with the size
+   * of the terminal once the wrapper has handled it.
+   */
+  private async controlTerminal(
+    pid: number,
+    request: ControlRequest,
+  ): Promise<ContainerResponse<ResizeResponse>> {
+    const control = this.ptyControls.get(pid);
+    if (!control) {
       throw new Error(`Process ${pid} not found`);
     }
 
-    // Send resize message to the process
-    if (targetProcess.send) {
-      targetProcess.send({
-        type: 'resize',
-        cols,
-        rows
-      });
+    const status = await control.send(request);
+    const spawned = this.spawnedProcesses.get(pid);
+    if (spawned) {
+      spawned.terminal = { cols: status.cols, rows: status.rows };
     }
-
-    return { success: true, data: null };
+    return { success: true, data: { pid, cols: status.cols, rows: status.rows } };
   }
 
-  private killProcess(pid: number): ContainerResponse<null> {
-    const targetProcess = this.processes.get(pid);
-    if (!targetProcess) {
+  /**
+   * Signals a process with everything it started, so that dev servers and their
+   * workers do not outlive the terminal and keep ports bound.
+   */
+  private async killProcess(
+    pid: number,
+    options: KillOptions = {},
+  ): Promise<ContainerResponse<KillResponse>> {
+    if (!this.processes.has(pid)) {
       throw new Error(`Process ${pid} not found`);
     }
 
-    targetProcess.kill();
-    this.processes.delete(pid);
-    return { success: true, data: null };
+    // Exited processes are removed by the exit handler
+    return { success: true, data: await killProcessTree(pid, options) };
   }
 
   private async watchFiles(watcherId: string, pattern: string, options: { persistent?: boolean }): Promise<FSWatcher> {
+    this.sandbox.assertPattern(pattern);
+    const patterns = this.watcherPatterns.get(watcherId);
+    if (patterns) {
+      patterns.add(pattern);
+    } else {
+      this.watcherPatterns.set(watcherId, new Set([pattern]));
+    }
+
     const files = await Array.fromAsync(glob(pattern, { cwd: this.config.workdirName }));
-    const watcher = chokidar.watch(files, {
+    const watcher = chokidar.watch(files.filter((file) => this.isWatchable(file)), {
       persistent: options.persistent ?? true,
       ignoreInitial: true,
       cwd: this.config.workdirName,
@@ -803,12 +2125,27 @@ export class ContainerServer {
       const eventType = this.mapChokidarEventToNodeEvent(eventName);
       const filename = filePath.replace(`${this.config.workdirName}/`, "");
 
+      if (this.sandbox.isHidden(filename) || this.isWatchEventSuppressed(filename)) {
+        return;
+      }
       this.notifyFileChange(watcherId, eventType, filename);
     });
 
     return watcher;
   }
 
+  /**
+   * Whether a glob match may be watched, matches reached through symlinks may lie outside the workspace.
+   */
+  private isWatchable(path: string): boolean {
+    try {
+      this.sandbox.resolve(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   private mapChokidarEventToNodeEvent(chokidarEvent: string): string {
     // Map chokidar events to Node.js fs.watch events
     switch (chokidarEvent) {
@@ -823,7 +2160,59 @@ export class ContainerServer {
     }
   }
 
-  private notifyFileChange(watcherId: string, eventType: string, filename: string | null): void {
+  /**
+   * Mutes chokidar events below the given paths for a short while, so an operation
+   * that already reported itself does not show up again as separate file events.
+   */
+  private suppressWatchEvents(...fullPaths: string[]): void {
+    const expiresAt = Date.now() + WATCH_SUPPRESSION_MS;
+    for (const fullPath of fullPaths) {
+      this.suppressedWatchPaths.set(relative(this.config.workdirName, fullPath), expiresAt);
+    }
+  }
+
+  private isWatchEventSuppressed(filename: string): boolean {
+    const now = Date.now();
+    for (const [path, expiresAt] of this.suppressedWatchPaths) {
+      if (expiresAt < now) {
+        this.suppressedWatchPaths.delete(path);
+      } else if (filename === path || filename.startsWith(`${path}/`)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private notifyPathOperation(eventType: "rename" | "copy", fullPath: string, newFullPath: string) {
+    const sourceFilename = relative(this.config.workdirName, fullPath);
+    const filename = relative(this.config.workdirName, newFullPath);
+
+    for (const [watcherId, patterns] of this.watcherPatterns) {
+      const touched = [...patterns].some(
+        (pattern) => globTouchesPath(pattern, filename) || globTouchesPath(pattern, sourceFilename),
+      );
+      if (touched) {
+        this.notifyFileChange(watcherId, eventType, filename, sourceFilename);
+      }
+    }
+  }
+
+  private notifyPathChange(eventType: "rename" | "change", fullPath: string): void {
+    const filename = relative(this.config.workdirName, fullPath);
+
+    for (const [watcherId, patterns] of this.watcherPatterns) {
+      if ([...patterns].some((pattern) => globTouchesPath(pattern, filename))) {
+        this.notifyFileChange(watcherId, eventType, filename);
+      }
+    }
+  }
+
+  private notifyFileChange(
+    watcherId: string,
+    eventType: string,
+    filename: string | null,
+    sourceFilename?: string,
+  ): void {
     const clients = this.fileWatchClients.get(watcherId);
 
     if (!clients || clients.size === 0) {
@@ -831,13 +2220,14 @@ export class ContainerServer {
     }
 
     // Create change notification message
-    const changeMessage: ContainerEventMessage = {
+    const changeMessage: ContainerEventMessage<FileChangeEventMessage> = {
       id: `watch-${Date.now()}`,
       event: "file-change",
       data: {
         watcherId,
         eventType,
         filename,
+        sourceFilename,
       },
     };
 
@@ -868,43 +2258,36 @@ export class ContainerServer {
       fsWatcher.close();
     }
     this.fileSystemWatchers.clear();
+    this.watcherPatterns.clear();
+    this.suppressedWatchPaths.clear();
     this.fileWatchClients.clear();
     this.clientWatchers.clear();
     this.processClients.clear();
   }
 }
 
-export function ensureSafePath(workdir: string, userPath: string): string {
-  const normalizedPath = normalize(join(workdir, userPath));
-  const normalizedWorkdir = normalize(workdir);
-
-  // Check if the path is within the workspace directory
-  if (normalizedPath.startsWith(normalizedWorkdir)) {
-    return normalizedPath;
+function parseRequest(message: string | Buffer): ContainerRequest {
+  // Binary frames start with a length prefix, JSON sent as a binary message starts with "{"
+  if (typeof message === "string" || message[0] === 0x7b) {
+    return JSON.parse(message.toString()) as ContainerRequest;
   }
 
-  // Remove dangerous path components and keep the path within workspace
-  return join(
-    normalizedWorkdir,
-    userPath
-      .split(/[\/\\]/)
-      .filter((segment) => segment !== "..")
-      .join("/"),
-  );
+  const { header, payload } = decodeBinaryFrame<ContainerRequest>(message);
+  return {
+    ...header,
+    operation: { ...header.operation, content: payload } as ContainerOperation,
+  };
 }
 
-async function mount(mountPath: string, tree: FileSystemTree) {
-  await mkdir(mountPath, { recursive: true });
+function serializeResponse(response: ContainerResponseWithId): string | Uint8Array {
+  const data = response.data as { content?: unknown } | null | undefined;
 
-  for (const [name, item] of Object.entries(tree)) {
-    const fullPath = join(mountPath, name);
-
-    if ("file" in item) {
-      await writeFile(fullPath, item.file.contents);
-    } else if ("directory" in item) {
-      await mount(fullPath, item.directory);
-    }
+  if (data?.content instanceof Uint8Array) {
+    const { content, ...rest } = data;
+    return encodeBinaryFrame({ ...response, data: rest }, content);
   }
+
+  return JSON.stringify(response);
 }
 
 function generateRandomName() {
@@ -0,0 +1,182 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import {
+  chmod,
+  lstat,
+  mkdir,
+  mkdtemp,
+  readFile,
+  readdir,
+  readlink,
+  rm,
+  symlink,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { WorkspaceSandbox } from "../sandbox/sandbox.ts";
+import { SnapshotStore } from "./store.ts";
+
+describe("SnapshotStore", () => {
+  let dir: string;
+  let workdir: string;
+  let store: SnapshotStore;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "snapshot-test-"));
+    workdir = join(dir, "workspace");
+    await mkdir(join(workdir, "src"), { recursive: true });
+    await mkdir(join(workdir, "node_modules/dep"), { recursive: true });
+    await writeFile(join(workdir, "src/index.ts"), "export {};\n");
+    await writeFile(join(workdir, "src/copy.ts"), "export {};\n");
+    await writeFile(join(workdir, "run.sh"), "#!/bin/sh\n");
+    await chmod(join(workdir, "run.sh"), 0o755);
+    await symlink("src/index.ts", join(workdir, "main"));
+    store = new SnapshotStore(new WorkspaceSandbox(workdir), join(dir, "data"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should store identical contents once", async () => {
+    const snapshot = await store.create({ name: "initial" });
+
+    expect(snapshot).toMatchObject({ name: "initial", files: 3, size: 32 });
+    const objects = await readdir(join(dir, "data/snapshots/objects"), { recursive: true });
+    expect(objects.filter((object) => object.includes("/"))).toHaveLength(2);
+  });
+
+  it("should diff and restore the workspace", async () => {
+    const [snapshot] = await store.list();
+
+    await writeFile(join(workdir, "src/index.ts"), "export const changed = true;\n");
+    await writeFile(join(workdir, "src/new.ts"), "");
+    await rm(join(workdir, "run.sh"));
+    await rm(join(workdir, "main"));
+    await writeFile(join(workdir, "node_modules/dep/index.js"), "");
+
+    const diff = await store.diff(snapshot.id);
+    expect(diff).toEqual({
+      added: ["src/new.ts"],
+      modified: ["src/index.ts"],
+      deleted: ["main", "run.sh"],
+    });
+
+    const { changes } = await store.restore(snapshot.id);
+    expect(changes).toEqual({
+      added: ["main", "run.sh"],
+      modified: ["src/index.ts"],
+      deleted: ["src/new.ts"],
+    });
+    expect(await readFile(join(workdir, "src/index.ts"), "utf-8")).toBe("export {};\n");
+    expect((await lstat(join(workdir, "run.sh"))).mode & 0o777).toBe(0o755);
+    expect(await readlink(join(workdir, "main"))).toBe("src/index.ts");
+    // Excluded paths are left alone
+    expect(await readdir(join(workdir, "node_modules/dep"))).toEqual(["index.js"]);
+    expect(await store.diff(snapshot.id)).toEqual({ added: [], modified: [], deleted: [] });
+  });
+
+  it("should remove unreferenced objects when deleting a snapshot", async () => {
+    const [first] = await store.list();
+    await writeFile(join(workdir, "src/index.ts"), "export const second = true;\n");
+    const second = await store.create();
+
+    await store.delete(second.id);
+
+    const objects = await readdir(join(dir, "data/snapshots/objects"), { recursive: true });
+    expect(objects.filter((object) => object.includes("/"))).toHaveLength(2);
+    expect((await store.list()).map(({ id }) => id)).toEqual([first.id]);
+    await expect(store.diff(second.id)).rejects.toThrow("not found");
+  });
+
+  it("should keep the objects of a snapshot created while another is deleted", async () => {
+    const [first] = await store.list();
+    // Enough new contents that the deletion runs while they are being stored
+    await mkdir(join(workdir, "generated"));
+    for (let index = 0; index < 50; index++) {
+      await writeFile(join(workdir, `generated/${index}.ts`), `export const value = ${index};\n`);
+    }
+
+    const creating = store.create();
+    await sleep(10);
+    const [third] = await Promise.all([creating, store.delete(first.id)]);
+    await rm(join(workdir, "generated"), { recursive: true });
+
+    await store.restore(third.id);
+    expect(await readdir(join(workdir, "generated"))).toHaveLength(50);
+  });
+});
+
+describe("SnapshotStore in a restricted workspace", () => {
+  let dir: string;
+  let workdir: string;
+  let store: SnapshotStore;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "snapshot-sandbox-test-"));
+    workdir = join(dir, "workspace");
+    await mkdir(join(workdir, "config"), { recursive: true });
+    await writeFile(join(workdir, ".env"), "SECRET=1\n");
+    await writeFile(join(workdir, "config/app.json"), "{}\n");
+    await writeFile(join(workdir, "index.ts"), "export {};\n");
+    const sandbox = new WorkspaceSandbox(workdir, { hidden: [".env"], readOnly: ["config"] });
+    store = new SnapshotStore(sandbox, join(dir, "data"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should neither capture nor restore hidden paths", async () => {
+    const snapshot = await store.create();
+    expect(snapshot.files).toBe(2);
+
+    await writeFile(join(workdir, ".env"), "SECRET=2\n");
+    expect(await store.diff(snapshot.id)).toEqual({ added: [], modified: [], deleted: [] });
+    await store.restore(snapshot.id);
+    expect(await readFile(join(workdir, ".env"), "utf-8")).toBe("SECRET=2\n");
+  });
+
+  it("should refuse to restore over read-only paths without changing anything", async () => {
+    const [snapshot] = await store.list();
+    await writeFile(join(workdir, "config/app.json"), '{"changed":true}\n');
+    await writeFile(join(workdir, "index.ts"), "export const changed = true;\n");
+
+    await expect(store.restore(snapshot.id)).rejects.toMatchObject({ code: "PATH_READ_ONLY" });
+    expect(await readFile(join(workdir, "index.ts"), "utf-8")).toBe(
+      "export const changed = true;\n",
+    );
+    await writeFile(join(workdir, "config/app.json"), "{}\n");
+  });
+
+  it("should run the restore through the guard", async () => {
+    const [snapshot] = await store.list();
+    await mkdir(join(workdir, "lib"));
+    await writeFile(join(workdir, "lib/util.ts"), "");
+    const calls: { fullPaths: string[]; bytes: number; changedPaths: string[] }[] = [];
+
+    await expect(
+      store.restore(snapshot.id, (fullPaths, bytes, _change, changedPaths) => {
+        calls.push({ fullPaths, bytes, changedPaths: changedPaths.sort() });
+        return Promise.reject(new Error("quota exceeded"));
+      }),
+    ).rejects.toThrow("quota exceeded");
+    expect(calls).toEqual([
+      {
+        fullPaths: [join(workdir, "index.ts"), join(workdir, "lib")],
+        bytes: 11,
+        changedPaths: [
+          join(workdir, "index.ts"),
+          join(workdir, "lib"),
+          join(workdir, "lib/util.ts"),
+        ],
+      },
+    ]);
+    expect(await readdir(join(workdir, "lib"))).toEqual(["util.ts"]);
+
+    await store.restore(snapshot.id, (_fullPaths, _bytes, change) => change());
+    expect(await readFile(join(workdir, "index.ts"), "utf-8")).toBe("export {};\n");
+    expect(await readdir(workdir)).not.toContain("lib");
+  });
+});
@@ -0,0 +1,354 @@
+import { randomUUID } from "node:crypto";
+import {
+  chmod,
+  mkdir,
+  readFile,
+  readdir,
+  readlink,
+  rename,
+  rm,
+  symlink,
+  writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+import type { SnapshotDiff, SnapshotInfo } from "../../protocol/src/index.ts";
+import { hashFile } from "../filesystem/hash.ts";
+import { TaskQueue } from "../filesystem/lock.ts";
+import { ObjectStore } from "../filesystem/objects.ts";
+import { walkWorkspace } from "../filesystem/walk.ts";
+import type { WorkspaceSandbox } from "../sandbox/sandbox.ts";
+
+const DEFAULT_EXCLUDE = ["node_modules", ".git"];
+const SNAPSHOT_ID_PATTERN = /^[\w-]+$/;
+
+export type SnapshotEntry =
+  | { type: "file"; hash: string; mode: number; size: number; mtime: number }
+  | { type: "directory"; mode: number }
+  | { type: "symlink"; target: string };
+
+type SnapshotEntries = Record<string, SnapshotEntry>;
+
+interface SnapshotManifest extends SnapshotInfo {
+  entries: SnapshotEntries;
+}
+
+/**
+ * Runs the changes of a restore, given the topmost paths they touch and the
+ * bytes of file content they write, e.g. within a quota. `changedPaths` lists
+ * every path the restore writes or removes, e.g. to lock them.
+ */
+export type RestoreGuard = (
+  fullPaths: string[],
+  bytes: number,
+  change: () => Promise<void>,
+  changedPaths: string[],
+) => Promise<void>;
+
+function isSameEntry(a: SnapshotEntry, b: SnapshotEntry): boolean {
+  switch (a.type) {
+    case "file":
+      return b.type === "file" && a.hash === b.hash && a.mode === b.mode;
+    case "directory":
+      return b.type === "directory" && a.mode === b.mode;
+    default:
+      return b.type === "symlink" && a.target === b.target;
+  }
+}
+
+/**
+ * Paths that differ between two sets of entries, as seen from `from`.
+ */
+export function diffEntries(from: SnapshotEntries, to: SnapshotEntries): SnapshotDiff {
+  const diff: SnapshotDiff = { added: [], modified: [], deleted: [] };
+  for (const [path, entry] of Object.entries(to)) {
+    const previous = from[path];
+    if (!previous) {
+      diff.added.push(path);
+    } else if (!isSameEntry(previous, entry)) {
+      diff.modified.push(path);
+    }
+  }
+  for (const path of Object.keys(from)) {
+    if (!to[path]) {
+      diff.deleted.push(path);
+    }
+  }
+  return diff;
+}
+
+/**
+ * Drops paths that are below another path of the list.
+ */
+function topmostPaths(paths: string[]): string[] {
+  const sorted = [...paths].sort();
+  return sorted.filter(
+    (path, index) => !sorted.slice(0, index).some((parent) => path.startsWith(`${parent}/`)),
+  );
+}
+
+function toInfo({ entries: _entries, ...info }: SnapshotManifest): SnapshotInfo {
+  return info;
+}
+
+/**
+ * Stores workspace snapshots under a data directory:
+ * objects/ holds file contents named by their SHA-256, manifests/ one JSON
+ * document per snapshot describing every path, latest the id of the newest one.
+ * Hidden workspace paths are neither captured nor restored.
+ */
+export class SnapshotStore {
+  private readonly sandbox: WorkspaceSandbox;
+  private readonly workdir: string;
+  private readonly objects: ObjectStore;
+  private readonly manifestsDir: string;
+  private readonly latestPath: string;
+  // Deleting collects unreferenced objects, which a snapshot being created may still need
+  private readonly queue: TaskQueue = new TaskQueue();
+
+  constructor(sandbox: WorkspaceSandbox, dataDir: string) {
+    this.sandbox = sandbox;
+    this.workdir = sandbox.root;
+    this.objects = new ObjectStore(join(dataDir, "snapshots", "objects"));
+    this.manifestsDir = join(dataDir, "snapshots", "manifests");
+    this.latestPath = join(dataDir, "snapshots", "latest");
+  }
+
+  create(options: { name?: string; exclude?: string[] } = {}): Promise<SnapshotInfo> {
+    return this.queue.exclusive(async () => {
+      const exclude = options.exclude ?? DEFAULT_EXCLUDE;
+      // Files whose size and mtime did not change since the last snapshot are not hashed again
+      const latest = await this.readLatest();
+      const entries = await this.scan(exclude, latest?.entries ?? {}, true);
+
+      const manifest: SnapshotManifest = {
+        id: randomUUID(),
+        name: options.name,
+        createdAt: Date.now(),
+        files: 0,
+        size: 0,
+        exclude,
+        entries,
+      };
+      for (const entry of Object.values(entries)) {
+        if (entry.type === "file") {
+          manifest.files++;
+          manifest.size += entry.size;
+        }
+      }
+
+      await this.writeManifest(manifest);
+      await writeFile(this.latestPath, manifest.id);
+      return toInfo(manifest);
+    });
+  }
+
+  /**
+   * Lists snapshots, newest first.
+   */
+  async list(): Promise<SnapshotInfo[]> {
+    return (await this.readManifests()).map(toInfo);
+  }
+
+  /**
+   * Changes made since a snapshot, either in the workspace or in a later snapshot.
+   */
+  async diff(snapshotId: string, against?: string): Promise<SnapshotDiff> {
+    const snapshot = await this.readManifest(snapshotId);
+    const target = against
+      ? (await this.readManifest(against)).entries
+      : await this.scan(snapshot.exclude, snapshot.entries, false);
+    return diffEntries(snapshot.entries, target);
+  }
+
+  /**
+   * Puts the workspace back into the state of a snapshot. Excluded paths are left alone.
+   * Every changed path is checked against the sandbox before anything is changed.
+   * Returns the changes made, relative to the workspace before the restore.
+   */
+  restore(
+    snapshotId: string,
+    guard: RestoreGuard = (_fullPaths, _bytes, change) => change(),
+  ): Promise<{ snapshot: SnapshotInfo; changes: SnapshotDiff }> {
+    return this.queue.exclusive(async () => {
+      const snapshot = await this.readManifest(snapshotId);
+      const current = await this.scan(snapshot.exclude, snapshot.entries, false);
+      const changes = diffEntries(current, snapshot.entries);
+      const paths = [...changes.modified, ...changes.added];
+
+      const fullPaths = new Map<string, string>();
+      for (const path of [...changes.deleted, ...paths]) {
+        fullPaths.set(path, this.sandbox.resolve(path, "write", { followSymlinks: false }));
+      }
+      let bytes = 0;
+      for (const path of paths) {
+        const entry = snapshot.entries[path];
+        bytes += entry.type === "file" ? entry.size : 0;
+      }
+
+      const touched = topmostPaths([...fullPaths.keys()]).map(
+        (path) => fullPaths.get(path) as string,
+      );
+      await guard(touched, bytes, () => this.applyChanges(snapshot.entries, current, changes), [
+        ...fullPaths.values(),
+      ]);
+
+      return { snapshot: toInfo(snapshot), changes };
+    });
+  }
+
+  delete(snapshotId: string): Promise<void> {
+    return this.queue.exclusive(async () => {
+      await this.readManifest(snapshotId);
+      await rm(this.manifestPath(snapshotId));
+      await this.collectGarbage();
+    });
+  }
+
+  /**
+   * Turns the workspace described by `current` into `target`.
+   */
+  private async applyChanges(
+    target: SnapshotEntries,
+    current: SnapshotEntries,
+    changes: SnapshotDiff,
+  ): Promise<void> {
+    for (const path of changes.deleted) {
+      await rm(join(this.workdir, path), { recursive: true, force: true });
+    }
+    // Sorted so that parent directories are restored before their contents
+    const paths = [...changes.modified, ...changes.added].sort();
+    for (const path of paths) {
+      const previous = current[path];
+      const entry = target[path];
+      if (previous && previous.type !== entry.type) {
+        await rm(join(this.workdir, path), { recursive: true, force: true });
+      }
+      await this.restoreEntry(path, entry);
+    }
+    // Directory modes last and deepest first, a read-only directory would block its contents
+    for (const path of paths.toReversed()) {
+      const entry = target[path];
+      if (entry.type === "directory") {
+        await chmod(join(this.workdir, path), entry.mode);
+      }
+    }
+  }
+
+  private async restoreEntry(path: string, entry: SnapshotEntry): Promise<void> {
+    const fullPath = join(this.workdir, path);
+    switch (entry.type) {
+      case "directory": {
+        await mkdir(fullPath, { recursive: true });
+        break;
+      }
+      case "symlink": {
+        await rm(fullPath, { force: true });
+        await symlink(entry.target, fullPath);
+        break;
+      }
+      default: {
+        await this.objects.copyTo(entry.hash, fullPath, { mode: entry.mode, mtime: entry.mtime });
+      }
+    }
+  }
+
+  /**
+   * Describes the workspace, reusing hashes of files that match `previous` by
+   * size and mtime. With `store`, new file contents are added to the object store.
+   */
+  private async scan(
+    exclude: string[],
+    previous: SnapshotEntries,
+    store: boolean,
+  ): Promise<SnapshotEntries> {
+    const entries: SnapshotEntries = {};
+
+    const walk = walkWorkspace(this.workdir, {
+      exclude,
+      ignore: this.sandbox.hiddenBelow(this.workdir),
+    });
+    for await (const { path, fullPath, stats } of walk) {
+      if (stats.isDirectory()) {
+        entries[path] = { type: "directory", mode: stats.mode & 0o7777 };
+      } else if (stats.isSymbolicLink()) {
+        entries[path] = { type: "symlink", target: await readlink(fullPath) };
+      } else if (stats.isFile()) {
+        const known = previous[path];
+        const unchanged =
+          known?.type === "file" && known.size === stats.size && known.mtime === stats.mtimeMs;
+        const reusable = unchanged && (!store || (await this.objects.has(known.hash)));
+        const hash = reusable ? known.hash : await this.hashContent(fullPath, store);
+
+        entries[path] = {
+          type: "file",
+          hash,
+          mode: stats.mode & 0o7777,
+          size: stats.size,
+          mtime: stats.mtimeMs,
+        };
+      }
+    }
+    return entries;
+  }
+
+  private hashContent(fullPath: string, store: boolean): Promise<string> {
+    return store ? this.objects.add(fullPath) : hashFile(fullPath);
+  }
+
+  /**
+   * Removes objects that are no longer referenced by any snapshot.
+   */
+  private async collectGarbage(): Promise<void> {
+    const referenced = new Set<string>();
+    for (const manifest of await this.readManifests()) {
+      for (const entry of Object.values(manifest.entries)) {
+        if (entry.type === "file") {
+          referenced.add(entry.hash);
+        }
+      }
+    }
+    await this.objects.retain(referenced);
+  }
+
+  private manifestPath(snapshotId: string): string {
+    if (!SNAPSHOT_ID_PATTERN.test(snapshotId)) {
+      throw new Error(`Invalid snapshot id: ${snapshotId}`);
+    }
+    return join(this.manifestsDir, `${snapshotId}.json`);
+  }
+
+  private async readManifest(snapshotId: string): Promise<SnapshotManifest> {
+    const path = this.manifestPath(snapshotId);
+    try {
+      return JSON.parse(await readFile(path, "utf-8")) as SnapshotManifest;
+    } catch {
+      throw new Error(`Snapshot ${snapshotId} not found`);
+    }
+  }
+
+  private async readLatest(): Promise<SnapshotManifest | undefined> {
+    try {
+      return await this.readManifest(await readFile(this.latestPath, "utf-8"));
+    } catch {
+      // None yet, or the latest one was deleted
+      return undefined;
+    }
+  }
+
+  private async readManifests(): Promise<SnapshotManifest[]> {
+    const names = await readdir(this.manifestsDir).catch(() => []);
+    const manifests = await Promise.all(
+      names
+        .filter((name) => name.endsWith(".json"))
+        .map((name) => this.readManifest(name.slice(0, -".json".length))),
+    );
+    return manifests.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  private async writeManifest(manifest: SnapshotManifest): Promise<void> {
+    await mkdir(this.manifestsDir, { recursive: true });
+    const path = this.manifestPath(manifest.id);
+    await writeFile(`${path}.tmp`, JSON.stringify(manifest));
+    await rename(`${path}.tmp`, path);
+  }
+}
@@ -6,6 +6,8 @@ import type {
   ContainerProcess,
   ContainerRequest,
   ContainerResponse,
+  FileSkipReason,
+  ReadTreeOperation,
   SpawnOptions,
 } from "../protocol/src/index.ts";
 
@@ -49,6 +51,7 @@ export interface Container {
   on(event: "preview-message", listener: PreviewMessageListener): Unsubscribe;
   on(event: "error", listener: ErrorListener): Unsubscribe;
   mount(data: FileSystemTree): Promise<void>;
+  readTree(path?: string, options?: ReadTreeOperation["options"]): Promise<FileSystemTree>;
   spawn(command: string, args?: string[], options?: SpawnOptions): Promise<ContainerProcess>;
   internal: {
     watchPaths(options: WatchOptions, callback: WatchCallback): void;
@@ -59,6 +62,9 @@ export interface Container {
 export interface FileNode {
   file: {
     contents: string;
+    encoding?: "utf-8" | "base64";
+    mode?: number;
+    skipped?: FileSkipReason;
   };
 }
 
@@ -66,8 +72,14 @@ export interface DirectoryNode {
   directory: FileSystemTree;
 }
 
+export interface SymlinkNode {
+  symlink: {
+    target: string;
+  };
+}
+
 export interface FileSystemTree {
-  [name: string]: FileNode | DirectoryNode;
+  [name: string]: FileNode | DirectoryNode | SymlinkNode;
 }
 
 export type FileSystemResult = string | Buffer | NodeFileSystemWatcher | Stats;
@@ -92,6 +104,8 @@ export const ContainerConfigSchema = z.object({
   workdirName: z.string(),
   coep: z.string(),
   forwardPreviewErrors: z.boolean(),
+  readOnlyPaths: z.array(z.string()).optional(),
+  hiddenPaths: z.array(z.string()).optional(),
 });
 
 export type ContainerConfigType = z.infer<typeof ContainerConfigSchema>;
@@ -100,7 +114,18 @@ export type ContainerConfigType = z.infer<typeof ContainerConfigSchema>;
 export interface ClientMessage {
   type:
     | (typeof FileSystemOperationTypes)[number]
+    | (typeof FileTransferOperationTypes)[number]
+    | (typeof BatchOperationTypes)[number]
+    | (typeof SearchOperationTypes)[number]
+    | (typeof FindOperationTypes)[number]
+    | (typeof ReadTreeOperationTypes)[number]
+    | (typeof FileHistoryOperationTypes)[number]
+    | (typeof SnapshotOperationTypes)[number]
+    | (typeof SyncOperationTypes)[number]
     | (typeof ProcessOperationTypes)[number]
+    | (typeof ExecOperationTypes)[number]
+    | (typeof ShellOperationTypes)[number]
+    | (typeof ProcessLogOperationTypes)[number]
     | (typeof PreviewOperationTypes)[number]
     | (typeof WatchOperationTypes)[number]
     | (typeof AuthOperationTypes)[number];
@@ -115,7 +140,19 @@ export interface ServerResponse extends ContainerResponse<unknown> {
 }
 
 export interface ServerEvent extends ContainerResponse<unknown> {
-  event: "file-change" | "server-ready" | "port" | "preview-message" | "error" | "process";
+  event:
+    | "file-change"
+    | "server-ready"
+    | "port"
+    | "preview-message"
+    | "error"
+    | "process"
+    | "transfer-progress"
+    | "import-progress"
+    | "search-match"
+    | "quota-warning"
+    | "limit-exceeded"
+    | "process-log";
 }
 
 export const FileSystemOperationTypes = [
@@ -126,9 +163,62 @@ export const FileSystemOperationTypes = [
   "mkdir",
   "stat",
   "mount",
+  "rename",
+  "copy",
+  "move",
+  "patchFile",
+] as const;
+
+export const FileTransferOperationTypes = [
+  "uploadStart",
+  "uploadChunk",
+  "uploadFinish",
+  "downloadStart",
+  "downloadChunk",
+  "downloadFinish",
+  "transferAbort",
 ] as const;
 
-export const ProcessOperationTypes = ["spawn", "input", "kill", "resize"] as const;
+export const BatchOperationTypes = ["batch"] as const;
+
+export const SearchOperationTypes = ["search"] as const;
+
+export const FindOperationTypes = ["find"] as const;
+
+export const ReadTreeOperationTypes = ["readTree"] as const;
+
+export const FileHistoryOperationTypes = ["fileHistory", "restoreFileVersion"] as const;
+
+export const SnapshotOperationTypes = [
+  "snapshotCreate",
+  "snapshotList",
+  "snapshotDiff",
+  "snapshotRestore",
+  "snapshotDelete",
+] as const;
+
+export const SyncOperationTypes = ["syncManifest", "syncApply"] as const;
+
+export const ProcessOperationTypes = [
+  "spawn",
+  "input",
+  "kill",
+  "resize",
+  "signal",
+  "terminalStatus",
+  "attach",
+  "listProcesses",
+] as const;
+
+export const ExecOperationTypes = ["exec"] as const;
+
+export const ShellOperationTypes = ["shellStart", "shellExecute", "shellClose"] as const;
+
+export const ProcessLogOperationTypes = [
+  "readProcessLog",
+  "followProcessLog",
+  "unfollowProcessLog",
+] as const;
 
 export const PreviewOperationTypes = ["server-ready", "port", "preview-message"] as const;
 